@@ -1,536 +1,247 @@
-import { App, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFolder, requestUrl } from 'obsidian';
-import * as path from 'path';
-import * as fs from 'fs'; // Import 'fs' for chmodSync and createWriteStream
-import { exec, spawn, ChildProcess } from 'child_process';
-
-// interface for settings
-interface KremsObsidianPluginSettings {
-	githubRepoUrl: string;
-	localMarkdownPath: string;
-	gitPassword?: string; // Should be a PAT
-	gitAuthorName?: string;
-	gitAuthorEmail?: string;
-	localRunPort?: string; // Stored as string, validated as number
-	localKremsBinaryPath?: string; // Path to downloaded krems binary
-	alternativeCSSDir?: string;
-	alternativeJSDir?: string;
-	alternativeFavicon?: string;
-}
-
-const DEFAULT_KREMS_SETTINGS: KremsObsidianPluginSettings = {
-	githubRepoUrl: '',
-	localMarkdownPath: '',
-	gitPassword: '',
-	gitAuthorName: '',
-	gitAuthorEmail: '',
-	localRunPort: '8080',
-	localKremsBinaryPath: '',
-	alternativeCSSDir: '',
-	alternativeJSDir: '',
-	alternativeFavicon: '',
-}
+import { App, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TextComponent, TFile, TFolder, debounce } from 'obsidian';
+import { exec } from 'child_process';
+import { GitService, parseRemoteUrl } from './src/git';
+import { CredentialStore, TOKEN_ENV_VARS } from './src/credentials';
+import { KremsBinaryManager, KremsBinarySource } from './src/kremsBinary';
+import { PreviewServer } from './src/previewServer';
+import { SiteActions } from './src/siteActions';
+import { KREMS_VIEW_TYPE, KremsView } from './src/kremsView';
+import { KREMS_TAXONOMY_VIEW_TYPE, KremsTaxonomyView } from './src/taxonomyView';
+import { KremsStatusBar } from './src/statusBar';
+import { DeploymentMonitor } from './src/deployStatus';
+import { createNoticeFeedback, registerCommands } from './src/commands';
+import { DEFAULT_IMAGE_QUALITY, DEFAULT_MAX_IMAGE_SIZE_KB, DEFAULT_MAX_IMAGE_WIDTH, ImageIngestor } from './src/imageIngest';
+import { convertWikilinks, getPagesWithWikilinks, summarizeWikilinkReport } from './src/wikilinks';
+import { exportMirroredNotes, summarizeMirrorReport } from './src/mirror';
+import { ASSET_OVERRIDE_KEYS, getSiteConfigPath, readSiteConfig, writeSiteConfig } from './src/siteConfig';
+import { ConfigEditorModal } from './src/configEditorModal';
+import { KremsObsidianPluginSettings, KremsSiteProfile, createSiteProfile, migrateSettings } from './src/settings';
 
 export default class KremsObsidianPlugin extends Plugin {
 	settings: KremsObsidianPluginSettings;
-	isKremsLocallyRunning: boolean = false;
-	localKremsProcess: ChildProcess | null = null;
+	git: GitService = new GitService();
+	credentials: CredentialStore = new CredentialStore(this);
+	kremsBinary: KremsBinaryManager = new KremsBinaryManager(this);
+	preview: PreviewServer = new PreviewServer(this);
+	actions: SiteActions = new SiteActions(this);
+	images: ImageIngestor = new ImageIngestor(this);
+	deployments: DeploymentMonitor = new DeploymentMonitor(this);
 
 
 	async onload() {
 		await this.loadSettings();
+		await this.credentials.migratePlainTextToken();
+
+		this.registerView(KREMS_VIEW_TYPE, (leaf) => new KremsView(leaf, this));
+		this.registerView(KREMS_TAXONOMY_VIEW_TYPE, (leaf) => new KremsTaxonomyView(leaf, this));
 
 		this.addRibbonIcon('cloud-lightning', 'Krems Publisher', (evt: MouseEvent) => {
-			new ActionModal(this.app, this).open();
+			this.activateView();
 		});
 
+		new KremsStatusBar(this, this.addStatusBarItem());
+		this.app.workspace.onLayoutReady(() => this.actions.refreshRepoStatus());
+
 		this.addSettingTab(new KremsSettingTab(this.app, this));
+
+		// Live reload: rebuild the running preview when files in its site folder change.
+		// Changes in the active site also refresh the uncommitted changes shown in the view and status bar.
+		const refreshRepoStatus = debounce(() => this.actions.refreshRepoStatus(), 2000, true);
+		const onVaultChange = (file: TAbstractFile, oldPath?: string) => {
+			this.preview.handleVaultChange(file.path);
+			if (oldPath) this.preview.handleVaultChange(oldPath);
+			const { localMarkdownPath } = this.getActiveProfile();
+			if (localMarkdownPath && (file.path.startsWith(localMarkdownPath + '/') || oldPath?.startsWith(localMarkdownPath + '/'))) {
+				refreshRepoStatus();
+			}
+		};
+		this.registerEvent(this.app.vault.on('modify', onVaultChange));
+		this.registerEvent(this.app.vault.on('create', onVaultChange));
+		this.registerEvent(this.app.vault.on('delete', onVaultChange));
+		this.registerEvent(this.app.vault.on('rename', onVaultChange));
+
+		this.registerEvent(this.app.workspace.on('editor-paste', (evt, editor, info) => this.images.handlePaste(evt, editor, info)));
+		this.registerEvent(this.app.workspace.on('editor-drop', (evt, editor, info) => this.images.handleDrop(evt, editor, info)));
+
+		registerCommands(this);
 		console.log('Krems Obsidian Plugin loaded.');
 	}
 
 	onunload() {
 		// Ensure any running Krems process is killed when the plugin unloads
-		if (this.localKremsProcess) {
-			console.log('Krems Obsidian Plugin unloading: Killing active Krems process.');
-			this.localKremsProcess.kill();
-			this.localKremsProcess = null;
-			this.isKremsLocallyRunning = false;
-		}
+		this.preview.dispose();
+		this.deployments.dispose();
 		console.log('Krems Obsidian Plugin unloaded.');
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_KREMS_SETTINGS, await this.loadData());
+		this.settings = migrateSettings(await this.loadData());
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
-	// Helper to execute shell commands
-	async execShellCommand(command: string, cwd: string, customEnv?: NodeJS.ProcessEnv, commandForDisplay?: string): Promise<{ stdout: string; stderr: string }> {
-		return new Promise((resolve, reject) => {
-			const env = customEnv ? { ...process.env, ...customEnv } : process.env;
-			const displayCmd = commandForDisplay || command;
-			
-			exec(command, { cwd, env }, (error, stdout, stderr) => {
-				const result = { stdout: stdout.trim(), stderr: stderr.trim() };
-				if (error) {
-					console.error(`Command failed: ${displayCmd}\nError: ${error.message}\nStdout: ${result.stdout}\nStderr: ${result.stderr}`);
-					reject({
-						message: `Command failed: ${displayCmd}. Error: ${error.message}`, 
-						stdout: result.stdout,
-						stderr: result.stderr,
-						originalError: error
-					});
-					return;
-				}
-				if (result.stderr) {
-					console.warn(`Command successful but stderr present: ${displayCmd}\nStderr: ${result.stderr}`);
-				}
-				resolve(result);
-			});
-		});
+	// The site that clone, pull, preview and push act on
+	getActiveProfile(): KremsSiteProfile {
+		return this.settings.profiles.find(profile => profile.id === this.settings.activeProfileId) || this.settings.profiles[0];
 	}
 
-	getKremsBinaryDir(): string {
-		// @ts-ignore App.vault.configDir is available in desktop
-		return path.join(this.app.vault.configDir, "plugins", this.manifest.id, "bin");
+	async setActiveProfile(profileId: string) {
+		this.settings.activeProfileId = profileId;
+		await this.saveSettings();
+		this.actions.repoStatus = null;
+		this.getKremsViews().forEach(view => view.render());
+		this.app.workspace.getLeavesOfType(KREMS_TAXONOMY_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof KremsTaxonomyView) leaf.view.render();
+		});
+		await this.actions.refreshRepoStatus();
 	}
 
-	getKremsBinaryName(): string {
-		switch (process.platform) {
-			case 'win32': return 'krems-windows-amd64.exe';
-			case 'darwin': return 'krems-darwin-amd64'; // Assuming amd64 for now
-			case 'linux': return 'krems-linux-amd64';
-			default: return ''; // Unsupported
-		}
+	getKremsViews(): KremsView[] {
+		return this.app.workspace.getLeavesOfType(KREMS_VIEW_TYPE)
+			.map(leaf => leaf.view)
+			.filter((view): view is KremsView => view instanceof KremsView);
 	}
 
-	async ensureKremsBinary(feedbackUpdater: (message: string, type: 'status' | 'success' | 'error') => void): Promise<string | null> {
-		const binaryName = this.getKremsBinaryName();
-		if (!binaryName) {
-			feedbackUpdater('Unsupported operating system for Krems download.', 'error');
-			return null;
-		}
-
-		const binaryDir = this.getKremsBinaryDir();
-		const binaryPath = path.join(binaryDir, binaryName); // This is vault-relative
-
-		// @ts-ignore
-		const vaultBasePath = this.app.vault.adapter.getBasePath(); // Get vault's absolute base path
-		const absoluteBinaryPath = path.join(vaultBasePath, binaryPath); // Create absolute OS path for fs operations
-
-		this.settings.localKremsBinaryPath = binaryPath; // Store the vault-relative path for settings
-		await this.saveSettings();
-
-
-		// @ts-ignore
-		const adapter = this.app.vault.adapter;
-
-		try {
-			if (await adapter.exists(binaryPath)) { // adapter.exists uses vault-relative path
-				feedbackUpdater('Krems binary already downloaded.', 'status');
-				// Ensure it's executable (especially on mac/linux after unzipping/copying)
-				if (process.platform !== 'win32') {
-					try {
-						fs.chmodSync(absoluteBinaryPath, 0o755); // Use absolute path for chmod
-					} catch (chmodErr) {
-						console.error("Failed to chmod existing binary:", chmodErr);
-						feedbackUpdater('Found Krems binary, but failed to set executable permission. Please check manually.', 'error');
-						return null;
-					}
-				}
-				return binaryPath;
-			}
-		} catch (e) {
-			console.error("Error checking for existing Krems binary:", e);
-			feedbackUpdater('Error checking for existing Krems binary. Attempting download.', 'error');
-		}
-		
-		feedbackUpdater(`Downloading Krems for ${process.platform}...`, 'status');
-		
-		try {
-			if (!(await adapter.exists(binaryDir))) {
-				await adapter.mkdir(binaryDir);
-			}
-
-			const downloadUrl = `https://github.com/mreider/krems/releases/latest/download/${binaryName}`;
-			const response = await requestUrl({ url: downloadUrl, method: 'GET' });
-
-			if (response.status !== 200) {
-				throw new Error(`Failed to download Krems: Server responded with ${response.status}`);
-			}
-			
-			await adapter.writeBinary(binaryPath, response.arrayBuffer);
-			feedbackUpdater('Krems downloaded successfully.', 'status');
-
-			if (process.platform !== 'win32') {
-				feedbackUpdater('Setting executable permissions...', 'status');
-				fs.chmodSync(absoluteBinaryPath, 0o755); // Use absolute path for chmod
-				feedbackUpdater('Permissions set.', 'status');
-			}
-			return binaryPath; // Return vault-relative path
-
-		} catch (error: any) {
-			console.error('Krems download error:', error);
-			feedbackUpdater(`Failed to download Krems: ${error.message || error.toString()}`, 'error');
-			return null;
+	// Reveals the Krems sidebar view (or another Krems view), creating it in the right sidebar the first time
+	async activateView(viewType: string = KREMS_VIEW_TYPE) {
+		let leaf = this.app.workspace.getLeavesOfType(viewType)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: viewType, active: true });
 		}
+		this.app.workspace.revealLeaf(leaf);
 	}
-}
-
-class ActionModal extends Modal {
-	plugin: KremsObsidianPlugin;
-	initButton: HTMLButtonElement;
-	browseLocallyButton: HTMLButtonElement;
-	stopKremsButton: HTMLButtonElement;
-	initFeedbackEl: HTMLDivElement;
-
 
-	constructor(app: App, plugin: KremsObsidianPlugin) {
-		super(app);
-		this.plugin = plugin;
+	openSettings() {
+		// @ts-ignore App.setting is not part of the public API
+		const setting = this.app.setting;
+		setting.open();
+		setting.openTabById(this.manifest.id);
 	}
 
-	async onOpen() {
-		const {contentEl} = this;
-		contentEl.empty();
-		contentEl.createEl('h2', { text: 'Krems Publisher Actions' });
-
-		// --- Clone Your Repo ---
-		const initSection = contentEl.createDiv({ cls: 'krems-modal-section' });
-		initSection.createEl('h4', { text: '1. Clone Your Repo' });
-		const initDesc = initSection.createEl('p', { text: `This will clone your repo from GitHub into your specified local directory (${this.plugin.settings.localMarkdownPath || 'not set'}).`});
-		this.initButton = initSection.createEl('button', { text: 'Clone Your Repo' });
-		this.initFeedbackEl = initSection.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px;' } }) as HTMLDivElement;
-		const initWarningEl = initSection.createEl('p', {cls: 'krems-warning', attr: { style: 'display: none;' }});
-
-
-		const setInitFeedback = (message: string, type: 'status' | 'success' | 'error') => {
-			this.initFeedbackEl.textContent = message;
-			this.initFeedbackEl.className = `krems-feedback krems-feedback-${type}`;
-		};
-
-		// Initial check for initButton state
-		const localMarkdownPathForInit = this.plugin.settings.localMarkdownPath;
-		const githubRepoUrlSet = !!this.plugin.settings.githubRepoUrl;
-
-		if (!localMarkdownPathForInit || !githubRepoUrlSet) {
-			this.initButton.disabled = true;
-			initWarningEl.textContent = 'Please set Local Markdown Directory and GitHub Repo URL in settings.';
-			initWarningEl.style.display = 'block';
-		}
-
-		this.initButton.addEventListener('click', async () => {
-			const { localMarkdownPath, githubRepoUrl } = this.plugin.settings;
-		
-			if (!localMarkdownPath || !githubRepoUrl) {
-				setInitFeedback('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
-				return;
-			}
-		
-			// @ts-ignore
-			const vaultBasePath = this.app.vault.adapter.getBasePath();
-			const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
-		
-			this.initButton.disabled = true;
-			setInitFeedback(`Cloning your repository from ${githubRepoUrl}...`, 'status');
-		
-			try {
-				const cloneCommand = `git clone ${githubRepoUrl} "${absoluteLocalPath}"`;
-				await this.plugin.execShellCommand(cloneCommand, vaultBasePath, undefined, 'git clone <your-repo-url> <path>');
-				setInitFeedback('Repository cloned successfully!', 'success');
-			} catch (error: any) {
-				console.error('Cloning error:', error.message || error);
-				let errorMsg = error.stderr || error.message || error.toString();
-				if (errorMsg.includes('already exists and is not an empty directory')) {
-					errorMsg = `Directory already exists and is not empty. If you have existing changes, please commit and push them. If you want to start fresh, please delete the directory and try again. If there are git conflicts, please resolve them manually.`;
-				}
-				setInitFeedback(`Cloning failed: ${errorMsg}`, 'error');
-			} finally {
-				this.initButton.disabled = false;
-			}
-		});
-
-		// --- Browse Locally Section ---
-		const browseSection = contentEl.createDiv({ cls: 'krems-modal-section' });
-		browseSection.createEl('h4', { text: '2. Preview Site Locally' });
-		this.browseLocallyButton = browseSection.createEl('button', { text: 'Browse Locally' });
-		this.stopKremsButton = browseSection.createEl('button', { text: 'Stop Local Server' });
-		const browseFeedbackEl = browseSection.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap; background-color: var(--background-secondary); padding: 5px; border-radius: 3px; max-height: 150px; overflow-y: auto;' } });
-		const browseWarningEl = browseSection.createEl('p', {cls: 'krems-warning', attr: { style: 'display: none;' }});
-
-
-		const setBrowseFeedback = (message: string, type: 'status' | 'success' | 'error' | 'log') => {
-			if (type === 'log') {
-				browseFeedbackEl.textContent += message + '\n';
-				browseFeedbackEl.scrollTop = browseFeedbackEl.scrollHeight;
-			} else {
-				browseFeedbackEl.textContent = message;
-			}
-			browseFeedbackEl.className = `krems-feedback krems-feedback-${type}`;
-		};
-
-		const updateBrowseButtonsState = () => {
-			if (this.plugin.isKremsLocallyRunning) {
-				this.browseLocallyButton.setText('Server Running');
-				this.browseLocallyButton.disabled = true;
-				this.stopKremsButton.disabled = false;
-			} else {
-				this.browseLocallyButton.setText('Browse Locally');
-				this.browseLocallyButton.disabled = false;
-				this.stopKremsButton.disabled = true;
-			}
-			const { localMarkdownPath } = this.plugin.settings;
-			if (!localMarkdownPath) {
-				this.browseLocallyButton.disabled = true;
-				this.stopKremsButton.disabled = true;
-				browseWarningEl.textContent = 'Please set Local Markdown Directory in settings.';
-				browseWarningEl.style.display = 'block';
-			} else {
-				browseWarningEl.style.display = 'none';
-			}
-		};
-		updateBrowseButtonsState();
-
-
-		this.browseLocallyButton.addEventListener('click', async () => {
-			const { localMarkdownPath, localRunPort } = this.plugin.settings;
-			if (!localMarkdownPath) {
-				setBrowseFeedback('Error: Local Markdown Directory must be set.', 'error');
-				return;
+	// Opens the preview page of a site note, starting the local server first if needed
+	async openFileInPreview(file: TFile) {
+		if (!this.preview.isRunning() || this.preview.sitePath !== this.getActiveProfile().localMarkdownPath) {
+			if (this.preview.isRunning()) {
+				await this.preview.stop();
 			}
-
-			this.browseLocallyButton.disabled = true;
-			setBrowseFeedback('Preparing local preview...', 'status');
-
-			const userConfirmed = confirm("To preview your site locally, this will download the Krems binary (if not already present) and set executable permissions. This step is for local preview and not strictly necessary for publishing to GitHub. Is it okay to proceed?");
-
-			if (!userConfirmed) {
-				setBrowseFeedback('Local preview cancelled by user.', 'status');
-				updateBrowseButtonsState();
+			if (!(await this.preview.start(createNoticeFeedback(), false))) {
 				return;
 			}
+		}
+		const url = await this.preview.getPreviewUrlForFile(file);
+		if (!url) {
+			new Notice(`Krems: ${file.path} is not part of the previewed site.`);
+			return;
+		}
+		window.open(url, '_blank');
+	}
 
-			const kremsBinaryVaultRelativePath = await this.plugin.ensureKremsBinary(setBrowseFeedback);
-			if (!kremsBinaryVaultRelativePath) {
-				updateBrowseButtonsState(); // Re-enable button if download/chmod failed
-				return;
-			}
-			
-			// @ts-ignore
-			const vaultBasePath = this.app.vault.adapter.getBasePath();
-			const absoluteKremsBinaryPath = path.join(vaultBasePath, kremsBinaryVaultRelativePath); // Use absolute path for spawning
-			const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
-			const portToUse = localRunPort || DEFAULT_KREMS_SETTINGS.localRunPort || "8080";
-
-			setBrowseFeedback(`Starting Krems server on port ${portToUse}...`, 'status');
-
-			try {
-				this.plugin.localKremsProcess = spawn(
-					absoluteKremsBinaryPath, // Use absolute path
-					['--run', '--port', portToUse], 
-					{ cwd: absoluteLocalPath, shell: process.platform === 'win32' } // shell: true for windows often helps with .exe
-				);
-				this.plugin.isKremsLocallyRunning = true;
-				updateBrowseButtonsState();
-				setBrowseFeedback(`Krems server starting on port ${portToUse}. Output:\n`, 'log');
-				
-				// Try to open browser after a short delay
-				setTimeout(() => {
-					window.open(`http://localhost:${portToUse}`, '_blank');
-				}, 1500);
-
-
-				this.plugin.localKremsProcess.stdout?.on('data', (data) => {
-					setBrowseFeedback(data.toString(), 'log');
-				});
-				this.plugin.localKremsProcess.stderr?.on('data', (data) => {
-					setBrowseFeedback(`[STDERR] ${data.toString()}`, 'log');
-				});
-				this.plugin.localKremsProcess.on('error', (err) => {
-					console.error('Failed to start Krems process:', err);
-					setBrowseFeedback(`Failed to start Krems: ${err.message}`, 'error');
-					this.plugin.isKremsLocallyRunning = false;
-					this.plugin.localKremsProcess = null;
-					updateBrowseButtonsState();
-				});
-				this.plugin.localKremsProcess.on('close', (code) => {
-					setBrowseFeedback(`Krems server exited with code ${code}.`, code === 0 ? 'status' : 'error');
-					this.plugin.isKremsLocallyRunning = false;
-					this.plugin.localKremsProcess = null;
-					updateBrowseButtonsState();
-				});
-
-			} catch (error: any) {
-				console.error('Error spawning Krems:', error);
-				setBrowseFeedback(`Error starting Krems: ${error.message || error.toString()}`, 'error');
-				this.plugin.isKremsLocallyRunning = false;
-				this.plugin.localKremsProcess = null;
-				updateBrowseButtonsState();
+	// Exports mirrored notes into the site folder (when enabled) and reports the result through the
+	// feedback updater. Before a push, wikilinks in the notes are rewritten so the published site can
+	// render them, unless the user turned that off; the preview converts them in its own copy instead.
+	async prepareSiteContent(feedbackUpdater: (message: string, type: 'status' | 'success' | 'error') => void, forPush = false): Promise<void> {
+		const profile = this.getActiveProfile();
+		const { localMarkdownPath } = profile;
+		if (!localMarkdownPath) {
+			return;
+		}
+		await this.syncAssetSettingsToConfig();
+		if (profile.mirrorMode) {
+			feedbackUpdater('Exporting notes from the vault into the site folder...', 'status');
+			const mirrorReport = await exportMirroredNotes(this.app, profile);
+			feedbackUpdater(summarizeMirrorReport(mirrorReport), 'status');
+		}
+		if (!forPush) {
+			return;
+		}
+		if (this.settings.rewriteWikilinksBeforePush === false) {
+			const pages = getPagesWithWikilinks(this.app, localMarkdownPath);
+			if (pages.length > 0) {
+				feedbackUpdater(`${pages.length} page(s) contain wikilinks, which the published site shows as plain text. Turn on "Rewrite Wikilinks Before Push" in settings to convert them.`, 'status');
 			}
-		});
+			return;
+		}
+		feedbackUpdater('Rewriting wikilinks and embeds in the site notes to Krems Markdown...', 'status');
+		const report = await convertWikilinks(this.app, localMarkdownPath);
+		feedbackUpdater(summarizeWikilinkReport(report), 'status');
+	}
 
-		this.stopKremsButton.addEventListener('click', async () => {
-			if (this.plugin.localKremsProcess) {
-				setBrowseFeedback('Stopping Krems server...', 'status');
-				this.plugin.localKremsProcess.kill(); 
-				// The 'close' event handler will update state and buttons.
-			} else {
-				setBrowseFeedback('Krems server is not running.', 'status');
-				this.plugin.isKremsLocallyRunning = false; // Ensure consistency
-				updateBrowseButtonsState();
-			}
-			// Run --clean after stopping, if binary path is known
-			const kremsBinaryVaultRelativePath = this.plugin.settings.localKremsBinaryPath;
-			const { localMarkdownPath } = this.plugin.settings;
-			if (kremsBinaryVaultRelativePath && localMarkdownPath) {
-				// @ts-ignore
-				const vaultBasePath = this.app.vault.adapter.getBasePath();
-				const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
-				const absoluteKremsBinaryPathForClean = path.join(vaultBasePath, kremsBinaryVaultRelativePath);
-
-				setBrowseFeedback('Cleaning up .tmp directory...', 'status');
-				try {
-					await this.plugin.execShellCommand(`"${absoluteKremsBinaryPathForClean}" --clean`, absoluteLocalPath, undefined, 'krems --clean');
-					setBrowseFeedback('Cleanup successful.', 'status');
-				} catch (cleanError: any) {
-					console.error("Krems clean error:", cleanError);
-					setBrowseFeedback(`Cleanup failed: ${cleanError.stderr || cleanError.message}`, 'error');
+	// Writes the alternative CSS/JS/favicon settings into the site's config.yaml, where Krems reads them.
+	// Blank settings never clear config.yaml; they are filled in from it instead, so a cloned site keeps its
+	// asset paths. config.yaml is only rewritten when a setting differs from it. True when it was rewritten.
+	async syncAssetSettingsToConfig(): Promise<boolean> {
+		const profile = this.getActiveProfile();
+		const { localMarkdownPath } = profile;
+		if (!localMarkdownPath || !(await this.app.vault.adapter.exists(getSiteConfigPath(localMarkdownPath)))) {
+			return false;
+		}
+		const config = await readSiteConfig(this.app, localMarkdownPath);
+		let configChanged = false;
+		let profileChanged = false;
+		for (const key of ASSET_OVERRIDE_KEYS) {
+			const value = profile[key] || '';
+			const configValue = typeof config.website[key] === 'string' ? (config.website[key] as string).trim() : '';
+			if (!value) {
+				if (configValue) {
+					profile[key] = configValue;
+					profileChanged = true;
 				}
+			} else if (configValue !== value) {
+				config.website[key] = value;
+				configChanged = true;
 			}
-		});
-
-
-		// --- Push Site to Repo ---
-		const pushSection = contentEl.createDiv({ cls: 'krems-modal-section' });
-		pushSection.createEl('h4', { text: '3. Push Site to GitHub' }); 
-		pushSection.createEl('p', { text: `This will add, commit, and push the content of '${this.plugin.settings.localMarkdownPath || 'not set'}' to your GitHub repo.`});
-		
-		const commitMessageInput = pushSection.createEl('input', { type: 'text', placeholder: 'Optional commit message (default: latest site version)' });
-		commitMessageInput.style.width = '100%';
-		commitMessageInput.style.marginBottom = '10px';
-
-		const pushButton = pushSection.createEl('button', { text: 'Push to GitHub' });
-		const pushFeedbackEl = pushSection.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px;' } });
+		}
+		if (profileChanged) {
+			await this.saveSettings();
+		}
+		if (configChanged) {
+			await writeSiteConfig(this.app, localMarkdownPath, config);
+		}
+		return configChanged;
+	}
 
-		const setPushFeedback = (message: string, type: 'status' | 'success' | 'error') => {
-			pushFeedbackEl.textContent = message;
-			pushFeedbackEl.className = `krems-feedback krems-feedback-${type}`;
+	// Author/committer identity used for every commit the plugin creates (push, merge, rebase)
+	getGitAuthorEnv(): NodeJS.ProcessEnv {
+		const { gitAuthorName, gitAuthorEmail } = this.getActiveProfile();
+		const authorName = gitAuthorName || "Krems Obsidian Plugin";
+		const authorEmail = gitAuthorEmail || "krems-plugin@example.com";
+		return {
+			GIT_AUTHOR_NAME: authorName,
+			GIT_AUTHOR_EMAIL: authorEmail,
+			GIT_COMMITTER_NAME: authorName,
+			GIT_COMMITTER_EMAIL: authorEmail
 		};
+	}
 
-		pushButton.addEventListener('click', async () => {
-			const { localMarkdownPath, githubRepoUrl, gitAuthorName, gitAuthorEmail, gitPassword } = this.plugin.settings;
-
-			if (!localMarkdownPath || !githubRepoUrl) {
-				setPushFeedback('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
-				return;
-			}
+	// Helper to execute shell commands (git commands go through this.git instead)
+	async execShellCommand(command: string, cwd: string, customEnv?: NodeJS.ProcessEnv, commandForDisplay?: string): Promise<{ stdout: string; stderr: string }> {
+		return new Promise((resolve, reject) => {
+			const env = customEnv ? { ...process.env, ...customEnv } : process.env;
+			const displayCmd = commandForDisplay || command;
 			
-			// @ts-ignore
-			const vaultBasePath = this.app.vault.adapter.getBasePath();
-			const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
-
-			const commitMessage = commitMessageInput.value.trim() || 'latest site version';
-			const sanitizedCommitMessage = commitMessage.replace(/"/g, '\\"');
-
-			pushButton.disabled = true;
-			commitMessageInput.disabled = true;
-			setPushFeedback('Preparing to push site...', 'status');
-
-			try {
-				let cmdOutput;
-
-				setPushFeedback('Adding files (git add .)...', 'status');
-				cmdOutput = await this.plugin.execShellCommand('git add .', absoluteLocalPath);
-				if (cmdOutput.stderr) { setPushFeedback(`Git add (warnings): ${cmdOutput.stderr}`, 'status');}
-
-
-				setPushFeedback(`Committing with message: "${sanitizedCommitMessage}"...`, 'status');
-				const authorNameForCommit = gitAuthorName || "Krems Obsidian Plugin";
-				const authorEmailForCommit = gitAuthorEmail || "krems-plugin@example.com";
-				
-				const commitEnv: NodeJS.ProcessEnv = {
-					GIT_AUTHOR_NAME: authorNameForCommit,
-					GIT_AUTHOR_EMAIL: authorEmailForCommit,
-					GIT_COMMITTER_NAME: authorNameForCommit,
-					GIT_COMMITTER_EMAIL: authorEmailForCommit
-				};
-
-				try {
-					cmdOutput = await this.plugin.execShellCommand(`git commit -m "${sanitizedCommitMessage}"`, absoluteLocalPath, commitEnv);
-					if (cmdOutput.stderr) { 
-						setPushFeedback(`Git commit (warnings): ${cmdOutput.stderr}`, 'status');
-					}
-				} catch (commitError: any) {
-					if (commitError.stdout && commitError.stdout.includes("nothing to commit")) {
-						setPushFeedback('No changes to commit. Proceeding to push...', 'status');
-					} else {
-						throw commitError; 
-					}
-				}
-				
-				setPushFeedback('Pushing to remote repository...', 'status');
-				let pushCommand = 'git push';
-				let displayPushCommand = 'git push';
-				
-				if (gitPassword && githubRepoUrl.startsWith('https://')) {
-					const urlWithoutProtocol = githubRepoUrl.substring('https://'.length);
-					const authenticatedUrl = `https://${gitPassword}@${urlWithoutProtocol}`;
-					
-					let currentBranch = 'main';
-					try {
-						cmdOutput = await this.plugin.execShellCommand('git rev-parse --abbrev-ref HEAD', absoluteLocalPath);
-						currentBranch = cmdOutput.stdout;
-						if (cmdOutput.stderr) { setPushFeedback(`Git branch check (warnings): ${cmdOutput.stderr}`, 'status');}
-					} catch (branchError: any) {
-						console.warn("Could not determine current branch, defaulting to 'main'. Error:", branchError.message);
-						setPushFeedback(`Warning: Could not determine current branch (using 'main'). Details: ${branchError.stderr || branchError.message}`, 'status');
-					}
-					pushCommand = `git push ${authenticatedUrl} ${currentBranch}`;
-					displayPushCommand = `git push <authenticated_url> ${currentBranch}`; 
-					setPushFeedback(`Pushing to ${githubRepoUrl} (authenticated)...`, 'status');
-				} else {
-					setPushFeedback(`Pushing to ${githubRepoUrl} (unauthenticated, ensure credential helper or SSH is set up)...`, 'status');
+			exec(command, { cwd, env }, (error, stdout, stderr) => {
+				const result = { stdout: stdout.trim(), stderr: stderr.trim() };
+				if (error) {
+					console.error(`Command failed: ${displayCmd}\nError: ${error.message}\nStdout: ${result.stdout}\nStderr: ${result.stderr}`);
+					reject({
+						message: `Command failed: ${displayCmd}. Error: ${error.message}`, 
+						stdout: result.stdout,
+						stderr: result.stderr,
+						originalError: error
+					});
+					return;
 				}
-				
-				cmdOutput = await this.plugin.execShellCommand(pushCommand, absoluteLocalPath, undefined, displayPushCommand);
-				if (cmdOutput.stderr) { 
-					setPushFeedback(`Push successful with warnings: ${cmdOutput.stderr}`, 'success');
-				} else {
-					setPushFeedback('Site pushed successfully!', 'success');
+				if (result.stderr) {
+					console.warn(`Command successful but stderr present: ${displayCmd}\nStderr: ${result.stderr}`);
 				}
-
-			} catch (error: any) {
-				console.error('Push error:', error.message || error); 
-				const errorMsg = `Push failed: ${error.message || error.toString()}${error.stderr ? `\nStderr: ${error.stderr}` : ''}`;
-				setPushFeedback(errorMsg, 'error');
-			} finally {
-				pushButton.disabled = false;
-				commitMessageInput.disabled = false;
-			}
-		});
-
-		if (!this.plugin.settings.localMarkdownPath || !this.plugin.settings.githubRepoUrl) {
-			pushButton.disabled = true;
-			commitMessageInput.disabled = true;
-			pushSection.createEl('p', {text: 'Please set Local Markdown Directory and GitHub Repo URL in settings.', cls: 'krems-warning'});
-		}
-
-		contentEl.createEl('hr');
-		const helpLink = contentEl.createEl('p', {cls: 'krems-modal-footer'});
-		helpLink.setText('For help, see the ');
-		helpLink.createEl('a', {
-			text: 'plugin documentation',
-			href: 'https://github.com/mreider/krems-obsidian-plugin/',
-			attr: { target: '_blank', rel: 'noopener noreferrer' }
+				resolve(result);
+			});
 		});
-		helpLink.appendText('.');
-	}
-
-	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
 	}
 }
 
@@ -542,11 +253,69 @@ class KremsSettingTab extends PluginSettingTab {
 		this.plugin = plugin;
 	}
 
+	// Repository URL or site folder may have changed, so refresh what the sidebar shows
+	hide(): void {
+		this.plugin.getKremsViews().forEach(view => view.render());
+		this.plugin.actions.refreshRepoStatus();
+	}
+
 	display(): void {
 		const {containerEl} = this;
 		containerEl.empty();
 		containerEl.createEl('h2', {text: 'Krems Publisher Settings'});
 
+		const profile = this.plugin.getActiveProfile();
+		const { profiles } = this.plugin.settings;
+
+		containerEl.createEl('h3', { text: 'Site Profiles' });
+		containerEl.createEl('p', { text: 'Each profile is a separate Krems site with its own repository, folder, port, author and asset paths. The settings below (down to "Alternative Asset Paths") apply to the selected profile, which is also the site the Krems sidebar works on.' });
+
+		new Setting(containerEl)
+			.setName('Site profile')
+			.setDesc('Select the site to edit and publish.')
+			.addDropdown(dropdown => {
+				profiles.forEach(p => dropdown.addOption(p.id, p.name || '(unnamed site)'));
+				dropdown.setValue(profile.id)
+					.onChange(async (value) => {
+						await this.plugin.setActiveProfile(value);
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Add site')
+				.onClick(async () => {
+					const newProfile = createSiteProfile(`Site ${profiles.length + 1}`);
+					profiles.push(newProfile);
+					await this.plugin.setActiveProfile(newProfile.id);
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Delete site')
+				.setWarning()
+				.setDisabled(profiles.length <= 1)
+				.onClick(async () => {
+					if (!confirm(`Delete the site profile "${profile.name}"? The site folder in your vault is not touched.`)) {
+						return;
+					}
+					this.plugin.settings.profiles = profiles.filter(p => p.id !== profile.id);
+					await this.plugin.setActiveProfile(this.plugin.settings.profiles[0].id);
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile Name')
+			.setDesc('Shown in the site switcher.')
+			.addText(text => {
+				text.setPlaceholder('e.g., Personal blog')
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value.trim();
+						await this.plugin.saveSettings();
+					});
+				// Refresh the switcher once editing is done rather than on every keystroke
+				text.inputEl.addEventListener('change', () => this.display());
+			});
+
 		const setFeedback = (inputEl: HTMLInputElement, feedbackDiv: HTMLElement, message: string, isValid: boolean) => {
 			inputEl.classList.remove('krems-input-valid', 'krems-input-invalid');
 			feedbackDiv.classList.remove('krems-feedback-valid', 'krems-feedback-invalid');
@@ -562,33 +331,34 @@ class KremsSettingTab extends PluginSettingTab {
 		
 		new Setting(containerEl)
 			.setName('GitHub Repository URL')
-			.setDesc('Git URL of your Krems repository (e.g., git@github.com:username/repo.git).')
+			.setDesc('Git URL of your Krems repository, either SSH (git@github.com:username/repo.git) or HTTPS (https://github.com/username/repo.git).')
 			.addText(text => {
 				const feedbackEl = text.inputEl.parentElement?.createEl('div', { cls: 'krems-setting-feedback', attr: { style: 'display: none; margin-top: 5px;' }}) as HTMLElement;
 				text.setPlaceholder('git@github.com:username/repo.git')
-					.setValue(this.plugin.settings.githubRepoUrl)
+					.setValue(profile.githubRepoUrl)
 					.onChange(async (value) => {
-						this.plugin.settings.githubRepoUrl = value.trim();
+						profile.githubRepoUrl = value.trim();
 						await this.plugin.saveSettings();
 					});
 
 				text.inputEl.addEventListener('focusout', async () => {
-					const value = this.plugin.settings.githubRepoUrl;
+					const value = profile.githubRepoUrl;
 					let isValid = true;
 					let message = '';
 					if (!value) {
 						setFeedback(text.inputEl, feedbackEl, '', true); return;
 					}
-					// Validation for git@github.com:user/repo.git format, allowing for dots in repo name
-					const gitUrlRegex = /^git@github\.com:[a-zA-Z0-9_-]+\/[a-zA-Z0-9._-]+(\.git)?$/;
-					if (!gitUrlRegex.test(value)) {
-						isValid = false; message = 'Invalid format. Use git@github.com:user/repo.git';
+					const remote = parseRemoteUrl(value);
+					if (!remote) {
+						isValid = false; message = 'Invalid format. Use git@github.com:user/repo.git or https://github.com/user/repo.git';
+					} else if (remote.protocol === 'https') {
+						message = 'HTTPS URL. Pushing uses the Personal Access Token below.';
 					} else {
-						message = 'URL format is valid.';
+						message = 'SSH URL. Pushing uses your SSH key.';
 					}
 					setFeedback(text.inputEl, feedbackEl, message, isValid);
 				});
-				if (this.plugin.settings.githubRepoUrl) text.inputEl.dispatchEvent(new Event('focusout'));
+				if (profile.githubRepoUrl) text.inputEl.dispatchEvent(new Event('focusout'));
 			});
 
 		new Setting(containerEl)
@@ -597,14 +367,14 @@ class KremsSettingTab extends PluginSettingTab {
 			.addText(text => {
 				const feedbackEl = text.inputEl.parentElement?.createEl('div', { cls: 'krems-setting-feedback', attr: { style: 'display: none; margin-top: 5px;' }}) as HTMLElement;
 				text.setPlaceholder('e.g., MyKremsSite or path/to/site')
-					.setValue(this.plugin.settings.localMarkdownPath)
+					.setValue(profile.localMarkdownPath)
 					.onChange(async (value) => {
-						this.plugin.settings.localMarkdownPath = value.trim();
+						profile.localMarkdownPath = value.trim();
 						await this.plugin.saveSettings();
 					});
 
 				text.inputEl.addEventListener('focusout', async () => {
-					const value = this.plugin.settings.localMarkdownPath;
+					const value = profile.localMarkdownPath;
 					let isValid = false;
 					let message = '';
 					if (!value) {
@@ -619,30 +389,177 @@ class KremsSettingTab extends PluginSettingTab {
 					}
 					setFeedback(text.inputEl, feedbackEl, message, isValid);
 				});
-				if (this.plugin.settings.localMarkdownPath) text.inputEl.dispatchEvent(new Event('focusout'));
+				if (profile.localMarkdownPath) text.inputEl.dispatchEvent(new Event('focusout'));
 			});
 
-		new Setting(containerEl)
+		const tokenSetting = new Setting(containerEl)
 			.setName('GitHub Personal Access Token (PAT)')
-			.setDesc('Required for pushing to HTTPS repositories. Create a PAT on GitHub with "repo" and "workflow" scopes. See plugin README for instructions.')
+			.setDesc('Used for HTTPS repositories. Create a PAT on GitHub with "repo" and "workflow" scopes. See plugin README for instructions.');
+		const tokenStatusEl = containerEl.createEl('div', { cls: 'krems-setting-feedback' });
+		const renderTokenStatus = async () => {
+			const environmentToken = this.plugin.credentials.getEnvironmentToken();
+			const stored = await this.plugin.credentials.getToken();
+			const storageName = this.plugin.credentials.getSecureStorageName();
+			if (environmentToken) {
+				tokenStatusEl.textContent = `Using the token from the ${environmentToken.detail} environment variable.`;
+			} else if (stored) {
+				tokenStatusEl.textContent = `A token is saved in the ${stored.detail}.`;
+			} else if (storageName) {
+				tokenStatusEl.textContent = `No token saved. Tokens are kept in the ${storageName}, never in the plugin's data.json.`;
+			} else {
+				tokenStatusEl.textContent = `Secure storage is not available on this device. Set the ${TOKEN_ENV_VARS[0]} environment variable before starting Obsidian.`;
+			}
+		};
+		let tokenInput = '';
+		tokenSetting
 			.addText(text => {
 				text.inputEl.type = 'password';
-				text.setPlaceholder('Enter your GitHub PAT')
-					.setValue(this.plugin.settings.gitPassword || '')
-					.onChange(async (value) => {
-						this.plugin.settings.gitPassword = value;
+				text.setPlaceholder('Enter a new token')
+					.onChange(value => { tokenInput = value.trim(); });
+			})
+			.addButton(button => button
+				.setButtonText('Save')
+				.onClick(async () => {
+					if (!tokenInput) return;
+					try {
+						await this.plugin.credentials.setToken(tokenInput);
+						new Notice('Token saved to secure storage.');
+					} catch (error: any) {
+						new Notice(error.message || error.toString());
+					}
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Clear')
+				.onClick(async () => {
+					try {
+						await this.plugin.credentials.setToken('');
+					} catch (error: any) {
+						new Notice(error.message || error.toString());
+					}
+					this.display();
+				}));
+		renderTokenStatus();
+
+		if (this.plugin.settings.gitPassword) {
+			new Setting(containerEl)
+				.setName('Plain-text token found')
+				.setDesc('An earlier version saved your token unencrypted in data.json and it could not be moved to secure storage. It is still used when no other token is set, and moving it is tried again each time Obsidian starts. To stop keeping it in plain text, set a token through an environment variable (or above, once secure storage is available), then remove it.')
+				.addButton(button => button
+					.setButtonText('Remove')
+					.setWarning()
+					.onClick(async () => {
+						delete this.plugin.settings.gitPassword;
 						await this.plugin.saveSettings();
-					});
-			});
+						this.display();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Pull / Sync Strategy')
+			.setDesc('How "Pull / Sync" integrates remote changes: rebase replays your local commits on top of the remote branch, merge creates a merge commit.')
+			.addDropdown(dropdown => dropdown
+				.addOption('rebase', 'Rebase')
+				.addOption('merge', 'Merge')
+				.setValue(this.plugin.settings.pullStrategy || 'rebase')
+				.onChange(async (value) => {
+					this.plugin.settings.pullStrategy = value === 'merge' ? 'merge' : 'rebase';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Convert Wikilinks in Preview')
+			.setDesc('"Browse Locally" builds from a copy of the site in which [[wikilinks]] and ![[embeds]] are turned into Markdown links and embedded attachments are copied into /images. Your notes are not changed.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.convertWikilinks !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.convertWikilinks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Rewrite Wikilinks Before Push')
+			.setDesc('GitHub builds the site from your notes as they are, so wikilinks only work on the published site if they are rewritten first. This permanently replaces [[wikilinks]] and ![[embeds]] in the notes of the site folder with Markdown links, so Obsidian\'s backlinks and graph no longer show them. Turn it off to keep your wikilinks; pushing then only warns that the published site shows them as plain text.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.rewriteWikilinksBeforePush !== false)
+				.onChange(async (value) => {
+					if (value && !confirm('Rewrite wikilinks in the site notes before every push? The links in your notes are replaced for good and stop appearing in backlinks and the graph.')) {
+						toggle.setValue(false);
+						return;
+					}
+					this.plugin.settings.rewriteWikilinksBeforePush = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Check Front Matter Before Push')
+			.setDesc('Run the front matter check before every push and stop the push if it reports errors (missing titles, unparseable dates, broken image paths). Warnings never block a push.')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.lintBeforePush)
+				.onChange(async (value) => {
+					this.plugin.settings.lintBeforePush = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Check Links Before Push')
+			.setDesc('Run the link check before every push and stop the push if it finds broken links, images or menu entries. Warnings (such as orphaned images) never block a push.')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.checkLinksBeforePush)
+				.onChange(async (value) => {
+					this.plugin.settings.checkLinksBeforePush = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Build Site Before Push')
+			.setDesc('Build a copy of the site with Krems in a temporary folder before every push, and stop the push if the build fails. Catches broken sites before GitHub Actions does. Needs the Krems binary (see below).')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.buildBeforePush)
+				.onChange(async (value) => {
+					this.plugin.settings.buildBeforePush = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Follow Deployments')
+			.setDesc('After a push, follow the GitHub Actions run for the pushed commit and show whether the site built and deployed. Uses your token when one is set; public repositories work without one.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trackDeployments !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.trackDeployments = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('GitHub API URL (Advanced)')
+			.setDesc('Leave blank to use https://api.github.com, or https://<host>/api/v3 for GitHub Enterprise. Point it at a local mock server to test deployment tracking.')
+			.addText(text => text
+				.setPlaceholder('https://api.github.com')
+				.setValue(this.plugin.settings.githubApiUrl || '')
+				.onChange(async (value) => {
+					this.plugin.settings.githubApiUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Live Reload Preview')
+			.setDesc('While the local preview runs, rebuild it when files in the site folder change and reload the page in your browser. Takes effect the next time the preview starts.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.liveReload !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.liveReload = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
 			.setName('Git Author Name')
 			.setDesc('Name to use for Git commits (e.g., Your Name). If blank, a default ("Krems Obsidian Plugin") will be used.')
 			.addText(text => text
 				.setPlaceholder('Your Name')
-				.setValue(this.plugin.settings.gitAuthorName || '')
+				.setValue(profile.gitAuthorName || '')
 				.onChange(async (value) => {
-					this.plugin.settings.gitAuthorName = value.trim();
+					profile.gitAuthorName = value.trim();
 					await this.plugin.saveSettings();
 				}));
 
@@ -651,9 +568,9 @@ class KremsSettingTab extends PluginSettingTab {
 			.setDesc('Email to use for Git commits (e.g., your.email@example.com). If blank, a default ("krems-plugin@example.com") will be used.')
 			.addText(text => text
 				.setPlaceholder('your.email@example.com')
-				.setValue(this.plugin.settings.gitAuthorEmail || '')
+				.setValue(profile.gitAuthorEmail || '')
 				.onChange(async (value) => {
-					this.plugin.settings.gitAuthorEmail = value.trim();
+					profile.gitAuthorEmail = value.trim();
 					await this.plugin.saveSettings();
 				}));
 		
@@ -663,13 +580,13 @@ class KremsSettingTab extends PluginSettingTab {
 			.addText(text => {
 				const feedbackEl = text.inputEl.parentElement?.createEl('div', { cls: 'krems-setting-feedback', attr: { style: 'display: none; margin-top: 5px;' }}) as HTMLElement;
 				text.setPlaceholder('e.g., 8080')
-					.setValue(this.plugin.settings.localRunPort || '')
+					.setValue(profile.localRunPort || '')
 					.onChange(async (value) => {
-						this.plugin.settings.localRunPort = value.trim();
+						profile.localRunPort = value.trim();
 						await this.plugin.saveSettings();
 					});
 				text.inputEl.addEventListener('focusout', () => {
-					const portVal = this.plugin.settings.localRunPort;
+					const portVal = profile.localRunPort;
 					if (!portVal) { // Empty is OK, will use default
 						setFeedback(text.inputEl, feedbackEl, 'Using default port 8080.', true); return;
 					}
@@ -680,44 +597,111 @@ class KremsSettingTab extends PluginSettingTab {
 						setFeedback(text.inputEl, feedbackEl, 'Port is valid.', true);
 					}
 				});
-				if (this.plugin.settings.localRunPort) text.inputEl.dispatchEvent(new Event('focusout'));
+				if (profile.localRunPort) text.inputEl.dispatchEvent(new Event('focusout'));
 			});
 
+		containerEl.createEl('h3', { text: 'Site Configuration' });
+
+		new Setting(containerEl)
+			.setName('config.yaml')
+			.setDesc('Edit the site URL, name, base/dev paths, asset overrides and menu of your site. The file may not appear in Obsidian\'s file explorer.')
+			.addButton(button => button
+				.setButtonText('Edit config.yaml')
+				.onClick(() => {
+					const { localMarkdownPath } = profile;
+					if (!localMarkdownPath) {
+						new Notice('Please set Local Markdown Directory first.');
+						return;
+					}
+					new ConfigEditorModal(this.app, this.plugin, localMarkdownPath).open();
+				}));
+
+		containerEl.createEl('h3', { text: 'Mirror Mode (Optional)' });
+		containerEl.createEl('p', { text: 'Publish notes that live elsewhere in the vault. Before every preview and push, notes with "krems: true" in their front matter, and notes in the source folders, are copied into the site folder together with the attachments they embed. Pages whose note was unpublished or deleted are removed again.' });
+
+		new Setting(containerEl)
+			.setName('Export Notes into the Site')
+			.addToggle(toggle => toggle
+				.setValue(!!profile.mirrorMode)
+				.onChange(async (value) => {
+					profile.mirrorMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Source Folders')
+			.setDesc('Vault folders whose notes are all published (comma-separated). Add "krems: false" to a note to leave it out.')
+			.addTextArea(text => text
+				.setPlaceholder('Blog, Notes/Public')
+				.setValue(profile.mirrorSourceFolders || '')
+				.onChange(async (value) => {
+					profile.mirrorSourceFolders = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Folder')
+			.setDesc('Folder inside the site the notes are copied to, e.g. "posts". Notes keep their path below their source folder. A "kremsPath" front matter field (e.g. "posts/hello.md") overrides this for one note.')
+			.addText(text => text
+				.setPlaceholder('(site root)')
+				.setValue(profile.mirrorExportFolder || '')
+				.onChange(async (value) => {
+					profile.mirrorExportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h3', { text: 'Alternative Asset Paths (Optional)' });
-		containerEl.createEl('p', { text: 'Specify paths relative to your "Local Markdown Directory" for custom CSS, JS, or favicon. If left blank, Krems defaults will be used.' });
+		containerEl.createEl('p', { text: 'Specify paths relative to your "Local Markdown Directory" for custom CSS, JS, or favicon. They are written to config.yaml when you leave a field and before every preview or push. A blank field takes the value already in config.yaml, if any; to remove a path, delete it from config.yaml. If neither sets it, Krems defaults will be used.' });
+
+		const syncAssetSettings = async () => {
+			try {
+				if (await this.plugin.syncAssetSettingsToConfig()) {
+					new Notice('Krems: asset paths written to config.yaml.');
+				}
+			} catch (error: any) {
+				console.error('Asset settings sync error:', error);
+				new Notice(`Krems: could not update config.yaml: ${error.message || error.toString()}`);
+			}
+		};
 
 		new Setting(containerEl)
 			.setName('Alternative CSS Directory')
 			.setDesc('Path to a directory containing your custom .css files (e.g., "my-styles/css").')
 			.addText(text => text
 				.setPlaceholder('e.g., assets/css')
-				.setValue(this.plugin.settings.alternativeCSSDir || '')
+				.setValue(profile.alternativeCSSDir || '')
 				.onChange(async (value) => {
-					this.plugin.settings.alternativeCSSDir = value.trim();
+					profile.alternativeCSSDir = value.trim();
 					await this.plugin.saveSettings();
-				}));
+				})
+				.inputEl.addEventListener('change', syncAssetSettings));
 
 		new Setting(containerEl)
 			.setName('Alternative JS Directory')
 			.setDesc('Path to a directory containing your custom .js files (e.g., "my-scripts/js").')
 			.addText(text => text
 				.setPlaceholder('e.g., assets/js')
-				.setValue(this.plugin.settings.alternativeJSDir || '')
+				.setValue(profile.alternativeJSDir || '')
 				.onChange(async (value) => {
-					this.plugin.settings.alternativeJSDir = value.trim();
+					profile.alternativeJSDir = value.trim();
 					await this.plugin.saveSettings();
-				}));
+				})
+				.inputEl.addEventListener('change', syncAssetSettings));
 
 		new Setting(containerEl)
 			.setName('Alternative Favicon File')
 			.setDesc('Path to your custom favicon file (e.g., "my-images/favicon.png").')
 			.addText(text => text
 				.setPlaceholder('e.g., assets/images/custom-favicon.ico')
-				.setValue(this.plugin.settings.alternativeFavicon || '')
+				.setValue(profile.alternativeFavicon || '')
 				.onChange(async (value) => {
-					this.plugin.settings.alternativeFavicon = value.trim();
+					profile.alternativeFavicon = value.trim();
 					await this.plugin.saveSettings();
-				}));
+				})
+				.inputEl.addEventListener('change', syncAssetSettings));
+
+		this.displayImageSettings(containerEl);
+		this.displayKremsBinarySettings(containerEl);
 		
 		containerEl.createEl('hr');
 		const instructionsLinkPara = containerEl.createEl('p', { cls: 'krems-settings-footer' });
@@ -729,4 +713,162 @@ class KremsSettingTab extends PluginSettingTab {
 		});
 		instructionsLinkPara.appendText('.');
 	}
+
+	displayImageSettings(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		containerEl.createEl('h3', { text: 'Images' });
+
+		new Setting(containerEl)
+			.setName('Store Pasted Images in /images')
+			.setDesc('Images pasted or dropped into a page of the site folder are saved to images/<page folder>/ and linked as /images/..., instead of going to Obsidian\'s attachment folder.')
+			.addToggle(toggle => toggle
+				.setValue(settings.ingestImages !== false)
+				.onChange(async (value) => {
+					settings.ingestImages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Resize Large Images')
+			.setDesc('Scale pasted JPEG, PNG and WebP images down to the maximum width and re-encode them. GIFs and SVGs are stored unchanged.')
+			.addToggle(toggle => toggle
+				.setValue(!!settings.resizeImages)
+				.onChange(async (value) => {
+					settings.resizeImages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const addNumber = (name: string, desc: string, key: 'maxImageWidth' | 'imageQuality' | 'maxImageSizeKB', fallback: number, min: number, max: number) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder(String(fallback))
+					.setValue(settings[key] ? String(settings[key]) : '')
+					.onChange(async (value) => {
+						const number = parseInt(value, 10);
+						settings[key] = isNaN(number) ? fallback : Math.min(max, Math.max(min, number));
+						await this.plugin.saveSettings();
+					}));
+		};
+		addNumber('Maximum Image Width', 'Pixels. Wider images are scaled down when resizing is on.', 'maxImageWidth', DEFAULT_MAX_IMAGE_WIDTH, 100, 10000);
+		addNumber('Image Quality', 'JPEG and WebP quality (1-100) used when resizing.', 'imageQuality', DEFAULT_IMAGE_QUALITY, 1, 100);
+		addNumber('Large Image Warning (KB)', 'Warn about pasted images and front matter "image:" files larger than this.', 'maxImageSizeKB', DEFAULT_MAX_IMAGE_SIZE_KB, 1, 100000);
+	}
+
+	displayKremsBinarySettings(containerEl: HTMLElement): void {
+		const { kremsBinary } = this.plugin;
+		const settings = this.plugin.settings;
+
+		containerEl.createEl('h3', { text: 'Krems Binary' });
+		const statusEl = containerEl.createEl('div', { cls: 'krems-binary-status' });
+		const renderStatus = async () => {
+			const status = await kremsBinary.getStatus();
+			statusEl.empty();
+			statusEl.createEl('div', { text: status.message, cls: status.exists ? 'krems-feedback-valid' : 'krems-feedback-invalid' });
+			if (status.checksum) {
+				statusEl.createEl('div', { text: `SHA-256: ${status.checksum}`, cls: 'krems-binary-checksum' });
+			}
+		};
+		renderStatus();
+
+		new Setting(containerEl)
+			.setName('Binary Source')
+			.setDesc('Download Krems from GitHub, use a binary you already have, or use the krems found on your PATH (for offline machines).')
+			.addDropdown(dropdown => dropdown
+				.addOption('download', 'Download from GitHub')
+				.addOption('custom', 'Custom path')
+				.addOption('path', 'krems on PATH')
+				.setValue(kremsBinary.getSource())
+				.onChange(async (value) => {
+					settings.kremsBinarySource = value as KremsBinarySource;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (kremsBinary.getSource() === 'custom') {
+			new Setting(containerEl)
+				.setName('Custom Binary Path')
+				.setDesc('Absolute path to a krems executable on this computer.')
+				.addText(text => text
+					.setPlaceholder('/usr/local/bin/krems')
+					.setValue(settings.kremsCustomBinaryPath || '')
+					.onChange(async (value) => {
+						settings.kremsCustomBinaryPath = value.trim();
+						await this.plugin.saveSettings();
+					})
+					.inputEl.addEventListener('change', renderStatus));
+			return;
+		}
+		if (kremsBinary.getSource() === 'path') {
+			return;
+		}
+
+		let checksumText: TextComponent;
+		new Setting(containerEl)
+			.setName('Krems Version')
+			.setDesc('Release tag to download (e.g., v1.2.0). Leave blank to use the latest release.')
+			.addText(text => text
+				.setPlaceholder('latest')
+				.setValue(settings.kremsVersion || '')
+				.onChange(async (value) => {
+					// A checksum belongs to one release, so it does not carry over to another version
+					if (value.trim() !== (settings.kremsVersion || '') && settings.kremsChecksum) {
+						settings.kremsChecksum = '';
+						checksumText.setValue('');
+					}
+					settings.kremsVersion = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Expected SHA-256 Checksum')
+			.setDesc('Optional, for a pinned version only; cleared when the version changes. The download is rejected if its checksum differs. When blank, the checksum published with the release is used if there is one.')
+			.addText(text => {
+				checksumText = text;
+				text.setPlaceholder('64 hex characters')
+					.setValue(settings.kremsChecksum || '')
+					.onChange(async (value) => {
+						settings.kremsChecksum = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const feedbackUpdater = (message: string, type: 'status' | 'success' | 'error') => {
+			if (type === 'error') new Notice(message);
+			else statusEl.setText(message);
+		};
+		new Setting(containerEl)
+			.setName('Updates')
+			.setDesc('Check GitHub for a newer Krems release, or download the selected version again.')
+			.addButton(button => button
+				.setButtonText('Check for updates')
+				.onClick(async () => {
+					button.setDisabled(true);
+					try {
+						const check = await kremsBinary.checkForUpdate();
+						if (!check.updateAvailable) {
+							new Notice(`Krems ${check.latest} is the latest release and is installed.`);
+						} else if (settings.kremsVersion) {
+							new Notice(`Krems ${check.latest} is available. Change the pinned version to update.`);
+						} else if (confirm(`Krems ${check.latest} is available (installed: ${check.installed || 'none'}). Download it now?`)) {
+							if (await kremsBinary.download(feedbackUpdater)) {
+								new Notice(`Krems ${check.latest} installed.`);
+							}
+						}
+					} catch (error: any) {
+						new Notice(`Could not check for Krems updates: ${error.message || error.toString()}`);
+					}
+					button.setDisabled(false);
+					await renderStatus();
+				}))
+			.addButton(button => button
+				.setButtonText('Download now')
+				.onClick(async () => {
+					button.setDisabled(true);
+					await kremsBinary.download(feedbackUpdater);
+					button.setDisabled(false);
+					await renderStatus();
+				}));
+	}
 }
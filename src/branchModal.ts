@@ -0,0 +1,79 @@
+import { App, FuzzySuggestModal, Modal, Setting } from 'obsidian';
+import { BranchInfo } from './git';
+
+// Asks for the name of a new draft branch. onSubmit is only called with a non-empty name.
+export class NewBranchModal extends Modal {
+	onSubmit: (name: string) => void;
+
+	constructor(app: App, onSubmit: (name: string) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'New Draft Branch' });
+		contentEl.createEl('p', { text: 'Work on a branch keeps large changes, such as a redesign, off the live site. Push the branch to back it up on GitHub, then merge it into the publishing branch when it is ready.' });
+
+		let name = '';
+		const submit = () => {
+			if (!name.trim()) return;
+			this.close();
+			this.onSubmit(name.trim());
+		};
+
+		new Setting(contentEl)
+			.setName('Branch name')
+			.setDesc('Uncommitted changes come along to the new branch.')
+			.addText(text => {
+				text.setPlaceholder('redesign')
+					.onChange(value => { name = value; });
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Create Branch')
+				.setCta()
+				.onClick(submit))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Picks a local branch to switch to
+export class BranchSuggestModal extends FuzzySuggestModal<BranchInfo> {
+	branches: BranchInfo[];
+	onChoose: (branch: BranchInfo) => void;
+
+	constructor(app: App, branches: BranchInfo[], onChoose: (branch: BranchInfo) => void) {
+		super(app);
+		this.branches = branches;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Switch to branch...');
+	}
+
+	getItems(): BranchInfo[] {
+		return this.branches;
+	}
+
+	getItemText(branch: BranchInfo): string {
+		return branch.upstream ? `${branch.name} (${branch.upstream})` : `${branch.name} (not on GitHub)`;
+	}
+
+	onChooseItem(branch: BranchInfo): void {
+		this.onChoose(branch);
+	}
+}
@@ -0,0 +1,137 @@
+import { normalizePath } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import { ReportIssue } from './reportModal';
+import { syncSiteCopy } from './drafts';
+
+const BUILD_TIMEOUT_MS = 3 * 60 * 1000;
+const OUTPUT_TAIL_LINES = 15;
+
+export interface BuildCheckResult {
+	success: boolean;
+	exitCode: number | null;
+	issues: ReportIssue[];
+	pages: string[]; // HTML files the build generated, relative to the build folder
+	durationMs: number;
+}
+
+// Lines Krems (and the Go runtime) print when something goes wrong
+const ERROR_LINE_REGEX = /\b(error|failed|failure|panic|fatal|invalid|cannot|could not|unable to)\b/i;
+const WARNING_LINE_REGEX = /\bwarn(ing)?\b/i;
+// A site file mentioned in a message, optionally followed by :line
+const FILE_REFERENCE_REGEX = /([^\s"'`:()]+\.(?:md|ya?ml|html|css|js))(?::(\d+))?/i;
+
+// Turns build output into report issues, pointing at the vault file a message mentions when there is one.
+// Paths inside the temporary build folder are mapped back to the site folder.
+export function parseBuildOutput(output: string, buildDir: string, localMarkdownPath: string, fileExists: (vaultPath: string) => boolean): ReportIssue[] {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const issues: ReportIssue[] = [];
+	const seen = new Set<string>();
+	for (const rawLine of output.split('\n')) {
+		const line = rawLine.split(buildDir + path.sep).join('').split(buildDir + '/').join('').trim();
+		// File names such as error-handling.md do not make a line an error
+		const text = line.replace(new RegExp(FILE_REFERENCE_REGEX.source, 'gi'), '');
+		const isError = ERROR_LINE_REGEX.test(text);
+		if (!line || (!isError && !WARNING_LINE_REGEX.test(text)) || seen.has(line)) continue;
+		seen.add(line);
+
+		let file = siteRoot;
+		let lineNumber: number | undefined;
+		const reference = line.match(FILE_REFERENCE_REGEX);
+		if (reference) {
+			const vaultPath = normalizePath(`${siteRoot}/${reference[1].replace(/^\.?\//, '')}`);
+			if (fileExists(vaultPath)) {
+				file = vaultPath;
+				lineNumber = reference[2] ? Math.max(parseInt(reference[2], 10) - 1, 0) : undefined;
+			}
+		}
+		issues.push({ file, line: lineNumber, severity: isError ? 'error' : 'warning', message: line });
+	}
+	return issues;
+}
+
+// Lists every file below `dir`, relative to it
+function listFiles(dir: string, relativeDir = ''): string[] {
+	const files: string[] = [];
+	for (const entry of fs.readdirSync(path.join(dir, relativeDir), { withFileTypes: true })) {
+		const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+		if (entry.isDirectory()) {
+			files.push(...listFiles(dir, relativePath));
+		} else {
+			files.push(relativePath);
+		}
+	}
+	return files;
+}
+
+// "12 page(s): 7 in posts/, 3 in notes/, 2 at the top level"
+export function summarizeGeneratedPages(pages: string[]): string {
+	// Krems writes into an output folder; group by the folder below it
+	const prefix = pages.length > 0 && pages.every(page => page.split('/')[0] === pages[0].split('/')[0] && page.includes('/'))
+		? pages[0].split('/')[0] + '/'
+		: '';
+	const counts = new Map<string, number>();
+	for (const page of pages) {
+		const relative = page.substring(prefix.length);
+		const folder = relative.includes('/') ? relative.split('/')[0] + '/' : '';
+		counts.set(folder, (counts.get(folder) || 0) + 1);
+	}
+	const parts = Array.from(counts.entries())
+		.sort((a, b) => b[1] - a[1])
+		.map(([folder, count]) => folder ? `${count} in ${folder}` : `${count} at the top level`);
+	return `${pages.length} page(s)${parts.length > 1 ? `: ${parts.join(', ')}` : ''}`;
+}
+
+function runKremsBuild(binaryPath: string, cwd: string): Promise<{ exitCode: number | null; output: string }> {
+	return new Promise(resolve => {
+		let output = '';
+		const child = spawn(binaryPath, ['--build'], { cwd, shell: process.platform === 'win32' });
+		const timer = setTimeout(() => {
+			output += `\nerror: the build did not finish within ${BUILD_TIMEOUT_MS / 60000} minutes and was stopped.`;
+			child.kill();
+		}, BUILD_TIMEOUT_MS);
+		child.stdout?.on('data', data => { output += data.toString(); });
+		child.stderr?.on('data', data => { output += data.toString(); });
+		child.on('error', error => {
+			clearTimeout(timer);
+			resolve({ exitCode: null, output: `${output}\nerror: could not start Krems: ${error.message}` });
+		});
+		child.on('close', code => {
+			clearTimeout(timer);
+			resolve({ exitCode: code, output });
+		});
+	});
+}
+
+// Builds a copy of the site (drafts left out, as on GitHub) in a temporary folder with `krems --build`
+// and reports what went wrong, or which pages were generated. The site folder itself is not touched.
+// `prepareCopy` may change the copy before Krems runs (to convert wikilinks, for example).
+export async function runBuildCheck(binaryPath: string, absoluteLocalPath: string, localMarkdownPath: string, draftPaths: Set<string>, fileExists: (vaultPath: string) => boolean, prepareCopy?: (buildDir: string) => Promise<void>): Promise<BuildCheckResult> {
+	const started = Date.now();
+	// Resolved, so paths Krems prints match it on systems where the temp folder is a symlink (macOS)
+	const buildDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'krems-build-')));
+	try {
+		await syncSiteCopy(absoluteLocalPath, buildDir, draftPaths);
+		if (prepareCopy) {
+			await prepareCopy(buildDir);
+		}
+		const sourceFiles = new Set(listFiles(buildDir));
+		const { exitCode, output } = await runKremsBuild(binaryPath, buildDir);
+		const pages = listFiles(buildDir).filter(file => !sourceFiles.has(file) && file.endsWith('.html')).sort();
+		const success = exitCode === 0;
+		let issues = parseBuildOutput(output, buildDir, localMarkdownPath, fileExists);
+		if (success) {
+			// Krems finished, so whatever it complained about did not stop the build
+			issues = issues.map(issue => ({ ...issue, severity: 'warning' }));
+		} else if (!issues.some(issue => issue.severity === 'error')) {
+			// Failed without a recognisable message; show the end of the output instead
+			const tail = output.trim().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n');
+			issues.unshift({ file: normalizePath(localMarkdownPath), severity: 'error', message: `Krems exited with code ${exitCode}.${tail ? `\n${tail}` : ''}` });
+		}
+		return { success, exitCode, issues, pages, durationMs: Date.now() - started };
+	} finally {
+		fs.rmSync(buildDir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,317 @@
+import { Notice } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { FeedbackUpdater } from './siteActions';
+import { CommitMessageModal } from './commitMessageModal';
+import { NewPageModal } from './newPageModal';
+import { readSiteConfig } from './siteConfig';
+import { HistoryModal } from './historyModal';
+import { NewSiteModal } from './newSiteModal';
+import { KREMS_TAXONOMY_VIEW_TYPE } from './taxonomyView';
+import { BranchSuggestModal, NewBranchModal } from './branchModal';
+
+// Shows an action's progress in a single Notice that stays up while it runs and fades out
+// a few seconds after the final success or error message. Flows that end on a status message
+// (a cancelled push, for example) fade out once no new message has arrived for a while.
+export function createNoticeFeedback(): FeedbackUpdater {
+	let notice: Notice | null = null;
+	let hideTimer: number | null = null;
+	return (message, type) => {
+		const text = `Krems: ${message}`;
+		if (!notice) {
+			notice = new Notice(text, 0);
+		} else {
+			notice.setMessage(text);
+		}
+		if (hideTimer !== null) {
+			window.clearTimeout(hideTimer);
+		}
+		const current = notice;
+		const delay = type === 'status' ? 30000 : type === 'error' ? 10000 : 5000;
+		hideTimer = window.setTimeout(() => {
+			current.hide();
+			if (notice === current) notice = null;
+		}, delay);
+		if (type !== 'status') {
+			notice = null;
+			hideTimer = null;
+		}
+	};
+}
+
+// Command palette entries for every Krems action. They call the same SiteActions and PreviewServer
+// methods as the sidebar buttons, so hotkeys and other plugins get identical behaviour.
+export function registerCommands(plugin: KremsObsidianPlugin) {
+	const { actions, preview } = plugin;
+
+	plugin.addCommand({
+		id: 'open-view',
+		name: 'Open Krems sidebar',
+		callback: () => plugin.activateView(),
+	});
+
+	plugin.addCommand({
+		id: 'open-tags-and-authors',
+		name: 'Open tags and authors',
+		callback: () => plugin.activateView(KREMS_TAXONOMY_VIEW_TYPE),
+	});
+
+	plugin.addCommand({
+		id: 'clone',
+		name: 'Clone site repository',
+		checkCallback: (checking: boolean) => {
+			if (!actions.isConfigured() || actions.isRunning('clone')) return false;
+			if (!checking) actions.clone(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'create-site',
+		name: 'Create new site',
+		checkCallback: (checking: boolean) => {
+			if (actions.isRunning('create') || actions.isRunning('clone')) return false;
+			if (!checking) new NewSiteModal(plugin.app, plugin).open();
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'pull',
+		name: 'Pull / sync site from GitHub',
+		checkCallback: (checking: boolean) => {
+			if (!actions.isConfigured() || actions.isRunning('pull')) return false;
+			if (!checking) actions.pull(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'start-preview',
+		name: 'Start local preview',
+		checkCallback: (checking: boolean) => {
+			if (!plugin.getActiveProfile().localMarkdownPath || preview.state !== 'stopped') return false;
+			if (!checking) {
+				const feedback = createNoticeFeedback();
+				if (!plugin.kremsBinary.confirmDownload()) {
+					feedback('Local preview cancelled by user.', 'error');
+					return true;
+				}
+				preview.start(feedback);
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'stop-preview',
+		name: 'Stop local preview',
+		checkCallback: (checking: boolean) => {
+			if (!preview.isRunning()) return false;
+			if (!checking) preview.stop(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'open-note-in-preview',
+		name: 'Open current note in local preview',
+		checkCallback: (checking: boolean) => {
+			const file = plugin.app.workspace.getActiveFile();
+			const { localMarkdownPath } = plugin.getActiveProfile();
+			if (!file || file.extension !== 'md' || !localMarkdownPath || !file.path.startsWith(localMarkdownPath + '/')) {
+				return false;
+			}
+			if (!checking) {
+				plugin.openFileInPreview(file);
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'push',
+		name: 'Push site to GitHub (default commit message)',
+		checkCallback: (checking: boolean) => {
+			if (!actions.isConfigured() || actions.isRunning('push')) return false;
+			if (!checking) actions.push('', createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'push-with-message',
+		name: 'Push site to GitHub with a commit message...',
+		checkCallback: (checking: boolean) => {
+			if (!actions.isConfigured() || actions.isRunning('push')) return false;
+			if (!checking) {
+				new CommitMessageModal(plugin.app, message => {
+					if (message !== null) actions.push(message, createNoticeFeedback());
+				}).open();
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'new-page',
+		name: 'New Krems page',
+		checkCallback: (checking: boolean) => {
+			const { localMarkdownPath } = plugin.getActiveProfile();
+			if (!localMarkdownPath) return false;
+			if (!checking) new NewPageModal(plugin.app, plugin, localMarkdownPath, 'default').open();
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'new-list-page',
+		name: 'New Krems list page',
+		checkCallback: (checking: boolean) => {
+			const { localMarkdownPath } = plugin.getActiveProfile();
+			if (!localMarkdownPath) return false;
+			if (!checking) new NewPageModal(plugin.app, plugin, localMarkdownPath, 'list').open();
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'publish-note',
+		name: 'Publish this note',
+		checkCallback: (checking: boolean) => {
+			const file = plugin.app.workspace.getActiveFile();
+			const { localMarkdownPath } = plugin.getActiveProfile();
+			if (!file || file.extension !== 'md' || !localMarkdownPath || !file.path.startsWith(localMarkdownPath + '/')
+				|| !actions.isConfigured() || actions.isRunning('push')) {
+				return false;
+			}
+			if (!checking) actions.publishPage(file, createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'show-drafts',
+		name: 'Show drafts',
+		callback: () => plugin.activateView(),
+	});
+
+	plugin.addCommand({
+		id: 'show-history',
+		name: 'Show publish history',
+		checkCallback: (checking: boolean) => {
+			const absoluteLocalPath = actions.getAbsoluteSitePath();
+			if (!absoluteLocalPath) return false;
+			if (!checking) new HistoryModal(plugin.app, plugin, absoluteLocalPath).open();
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'switch-branch',
+		name: 'Switch branch',
+		checkCallback: (checking: boolean) => {
+			const branches = actions.repoStatus?.branches || [];
+			if (branches.length < 2 || actions.isRunning('branch') || actions.isRunning('push')) return false;
+			if (!checking) {
+				new BranchSuggestModal(plugin.app, branches.filter(branch => branch.name !== actions.repoStatus?.branch), branch => {
+					actions.switchBranch(branch.name, createNoticeFeedback());
+				}).open();
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'new-draft-branch',
+		name: 'Create draft branch',
+		checkCallback: (checking: boolean) => {
+			if (!actions.getAbsoluteSitePath() || actions.isRunning('branch')) return false;
+			if (!checking) new NewBranchModal(plugin.app, name => actions.createBranch(name, createNoticeFeedback())).open();
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'push-branch',
+		name: 'Push current branch',
+		checkCallback: (checking: boolean) => {
+			if (!actions.isConfigured() || actions.isRunning('push')) return false;
+			if (!checking) actions.pushBranch(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'merge-branch',
+		name: 'Merge current branch into the publishing branch',
+		checkCallback: (checking: boolean) => {
+			const status = actions.repoStatus;
+			if (!actions.isConfigured() || actions.isRunning('push') || !status?.defaultBranch || status.branch === status.defaultBranch) return false;
+			if (!checking && confirm(`Merge ${status.branch} into ${status.defaultBranch} and push? This publishes everything on ${status.branch}.`)) {
+				actions.mergeIntoDefault(createNoticeFeedback());
+			}
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'check-front-matter',
+		name: 'Check front matter',
+		checkCallback: (checking: boolean) => {
+			if (!plugin.getActiveProfile().localMarkdownPath || actions.isRunning('lint')) return false;
+			if (!checking) actions.checkFrontMatter(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'check-links',
+		name: 'Check links and images',
+		checkCallback: (checking: boolean) => {
+			if (!plugin.getActiveProfile().localMarkdownPath || actions.isRunning('links')) return false;
+			if (!checking) actions.checkLinks(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'check-build',
+		name: 'Check that the site builds',
+		checkCallback: (checking: boolean) => {
+			if (!plugin.getActiveProfile().localMarkdownPath || actions.isRunning('build')) return false;
+			if (!checking) actions.checkBuild(createNoticeFeedback());
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'open-published-site',
+		name: 'Open published site',
+		checkCallback: (checking: boolean) => {
+			const { localMarkdownPath } = plugin.getActiveProfile();
+			if (!localMarkdownPath) return false;
+			if (!checking) openPublishedSite(plugin, localMarkdownPath);
+			return true;
+		}
+	});
+
+	plugin.addCommand({
+		id: 'open-settings',
+		name: 'Open plugin settings',
+		callback: () => plugin.openSettings()
+	});
+}
+
+// The site's public address is website.url in config.yaml, which already includes any basePath
+async function openPublishedSite(plugin: KremsObsidianPlugin, localMarkdownPath: string) {
+	try {
+		const { website } = await readSiteConfig(plugin.app, localMarkdownPath);
+		if (!website.url) {
+			new Notice('Krems: website.url is not set in config.yaml. Add it with "Edit config.yaml" in the settings.');
+			return;
+		}
+		window.open(website.url, '_blank');
+	} catch (error: any) {
+		new Notice(`Krems: could not read config.yaml: ${error.message || error}`);
+	}
+}
@@ -0,0 +1,58 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DEFAULT_COMMIT_MESSAGE } from './siteActions';
+
+// Asks for a commit message before pushing. onSubmit receives the message, or null when cancelled.
+export class CommitMessageModal extends Modal {
+	onSubmit: (message: string | null) => void;
+	submitted = false;
+
+	constructor(app: App, onSubmit: (message: string | null) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Push to GitHub' });
+
+		let message = '';
+		const submit = () => {
+			this.submitted = true;
+			this.close();
+			this.onSubmit(message);
+		};
+
+		new Setting(contentEl)
+			.setName('Commit message')
+			.setDesc(`Leave empty to use "${DEFAULT_COMMIT_MESSAGE}".`)
+			.addText(text => {
+				text.setPlaceholder(DEFAULT_COMMIT_MESSAGE)
+					.onChange(value => { message = value; });
+				text.inputEl.style.width = '100%';
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Push')
+				.setCta()
+				.onClick(submit))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.submitted) {
+			this.onSubmit(null);
+		}
+	}
+}
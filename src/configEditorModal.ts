@@ -0,0 +1,192 @@
+import { App, FuzzySuggestModal, Modal, Setting, TFile, normalizePath } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { ASSET_OVERRIDE_KEYS, KremsSiteConfig, getSiteConfigPath, readSiteConfig, validateSiteConfig, writeSiteConfig } from './siteConfig';
+
+// Picks a Markdown page of the site folder and returns its site-relative path
+class SitePageSuggestModal extends FuzzySuggestModal<TFile> {
+	siteRoot: string;
+	onChoose: (sitePath: string) => void;
+
+	constructor(app: App, siteRoot: string, onChoose: (sitePath: string) => void) {
+		super(app);
+		this.siteRoot = siteRoot;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Pick a page for this menu item');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(this.siteRoot + '/'));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path.substring(this.siteRoot.length + 1);
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(this.getItemText(file));
+	}
+}
+
+export class ConfigEditorModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	localMarkdownPath: string;
+	config: KremsSiteConfig;
+	menuEl: HTMLDivElement;
+	feedbackEl: HTMLDivElement;
+	dragIndex: number | null = null;
+
+	constructor(app: App, plugin: KremsObsidianPlugin, localMarkdownPath: string) {
+		super(app);
+		this.plugin = plugin;
+		this.localMarkdownPath = localMarkdownPath;
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.modalEl.addClass('krems-config-modal');
+		contentEl.createEl('h2', { text: 'Edit config.yaml' });
+		contentEl.createEl('p', { text: `Editing ${getSiteConfigPath(this.localMarkdownPath)}. Comments in the file are not preserved when saving.` });
+
+		try {
+			this.config = await readSiteConfig(this.app, this.localMarkdownPath);
+		} catch (error: any) {
+			contentEl.createEl('p', { cls: 'krems-warning', text: `Could not read config.yaml: ${error.message || error.toString()}` });
+			return;
+		}
+
+		// Asset overrides from the site profile fill in anything the file does not set yet
+		const profile = this.plugin.getActiveProfile();
+		for (const key of ASSET_OVERRIDE_KEYS) {
+			if (!this.config.website[key] && profile[key]) {
+				this.config.website[key] = profile[key];
+			}
+		}
+
+		contentEl.createEl('h3', { text: 'Website' });
+		const website = this.config.website;
+		const addWebsiteText = (key: string, name: string, desc: string, placeholder: string) => {
+			new Setting(contentEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder(placeholder)
+					.setValue(String(website[key] ?? ''))
+					.onChange(value => { website[key] = value.trim(); }));
+		};
+		addWebsiteText('url', 'URL', 'Full address of the published site.', 'https://username.github.io/my-site');
+		addWebsiteText('name', 'Name', 'Site name shown in the header and page titles.', 'My Krems Site');
+		addWebsiteText('basePath', 'Base path', 'Required when the site is served from a subdirectory, e.g. a GitHub project page.', '/my-site');
+		addWebsiteText('devPath', 'Dev path', 'Path used by the local preview server.', '/');
+		addWebsiteText('alternativeCSSDir', 'Alternative CSS directory', 'Optional. Directory of custom .css files, relative to the site folder.', 'assets/css');
+		addWebsiteText('alternativeJSDir', 'Alternative JS directory', 'Optional. Directory of custom .js files, relative to the site folder.', 'assets/js');
+		addWebsiteText('alternativeFavicon', 'Alternative favicon', 'Optional. Favicon file, relative to the site folder.', 'assets/favicon.ico');
+
+		contentEl.createEl('h3', { text: 'Menu' });
+		contentEl.createEl('p', { text: 'Drag items to reorder them.' });
+		this.menuEl = contentEl.createDiv({ cls: 'krems-menu-list' });
+		this.renderMenu();
+
+		const addButton = contentEl.createEl('button', { text: 'Add menu item' });
+		addButton.addEventListener('click', () => {
+			this.config.menu.push({ title: '', path: '' });
+			this.renderMenu();
+		});
+
+		this.feedbackEl = contentEl.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap;' } }) as HTMLDivElement;
+
+		const buttonRow = contentEl.createDiv({ cls: 'krems-modal-section' });
+		const saveButton = buttonRow.createEl('button', { text: 'Save', cls: 'mod-cta' });
+		const cancelButton = buttonRow.createEl('button', { text: 'Cancel' });
+		saveButton.addEventListener('click', () => this.save());
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+
+	renderMenu() {
+		this.menuEl.empty();
+		const siteRoot = normalizePath(this.localMarkdownPath);
+
+		this.config.menu.forEach((item, index) => {
+			const row = this.menuEl.createDiv({ cls: 'krems-menu-row', attr: { draggable: 'true' } });
+			row.createSpan({ cls: 'krems-menu-handle', text: '⋮⋮' });
+
+			const titleInput = row.createEl('input', { type: 'text', placeholder: 'Title', value: item.title });
+			titleInput.addEventListener('input', () => { item.title = titleInput.value; });
+
+			const pathInput = row.createEl('input', { type: 'text', placeholder: 'path/to/page.md', value: item.path });
+			pathInput.addEventListener('input', () => { item.path = pathInput.value.trim(); });
+
+			const pickButton = row.createEl('button', { text: 'Pick…' });
+			pickButton.addEventListener('click', () => {
+				new SitePageSuggestModal(this.app, siteRoot, sitePath => {
+					item.path = sitePath;
+					pathInput.value = sitePath;
+				}).open();
+			});
+
+			const removeButton = row.createEl('button', { text: 'Remove' });
+			removeButton.addEventListener('click', () => {
+				this.config.menu.splice(index, 1);
+				this.renderMenu();
+			});
+
+			row.addEventListener('dragstart', (event: DragEvent) => {
+				this.dragIndex = index;
+				event.dataTransfer?.setData('text/plain', String(index));
+				row.addClass('is-dragging');
+			});
+			row.addEventListener('dragend', () => {
+				this.dragIndex = null;
+				row.removeClass('is-dragging');
+			});
+			row.addEventListener('dragover', (event: DragEvent) => {
+				event.preventDefault();
+				row.addClass('is-drag-target');
+			});
+			row.addEventListener('dragleave', () => row.removeClass('is-drag-target'));
+			row.addEventListener('drop', (event: DragEvent) => {
+				event.preventDefault();
+				if (this.dragIndex === null || this.dragIndex === index) return;
+				const [moved] = this.config.menu.splice(this.dragIndex, 1);
+				this.config.menu.splice(index, 0, moved);
+				this.dragIndex = null;
+				this.renderMenu();
+			});
+		});
+
+		if (this.config.menu.length === 0) {
+			this.menuEl.createEl('p', { text: 'No menu items yet.' });
+		}
+	}
+
+	setFeedback(message: string, type: 'status' | 'success' | 'error') {
+		this.feedbackEl.textContent = message;
+		this.feedbackEl.className = `krems-feedback krems-feedback-${type}`;
+	}
+
+	async save() {
+		const problems = await validateSiteConfig(this.app, this.localMarkdownPath, this.config);
+		if (problems.length > 0) {
+			this.setFeedback(`config.yaml was not saved:\n- ${problems.join('\n- ')}`, 'error');
+			return;
+		}
+		try {
+			await writeSiteConfig(this.app, this.localMarkdownPath, this.config);
+			// Keep the profile's asset settings in step with what was just written
+			const profile = this.plugin.getActiveProfile();
+			for (const key of ASSET_OVERRIDE_KEYS) {
+				profile[key] = String(this.config.website[key] ?? '');
+			}
+			await this.plugin.saveSettings();
+			this.close();
+		} catch (error: any) {
+			console.error('config.yaml write error:', error);
+			this.setFeedback(`Could not save config.yaml: ${error.message || error.toString()}`, 'error');
+		}
+	}
+}
@@ -0,0 +1,219 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import type KremsObsidianPlugin from '../main';
+import { SyncStrategy } from './git';
+
+type FeedbackUpdater = (message: string, type: 'status' | 'success' | 'error') => void;
+
+// Returns the kind of sync that stopped on conflicts in the repo, if any
+export function detectSyncInProgress(absoluteLocalPath: string): SyncStrategy | null {
+	const gitDir = path.join(absoluteLocalPath, '.git');
+	if (fs.existsSync(path.join(gitDir, 'rebase-merge')) || fs.existsSync(path.join(gitDir, 'rebase-apply'))) {
+		return 'rebase';
+	}
+	if (fs.existsSync(path.join(gitDir, 'MERGE_HEAD'))) {
+		return 'merge';
+	}
+	return null;
+}
+
+export class ConflictModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	absoluteLocalPath: string;
+	strategy: SyncStrategy;
+	feedbackUpdater: FeedbackUpdater;
+	listEl: HTMLDivElement;
+	feedbackEl: HTMLDivElement;
+	continueButton: HTMLButtonElement;
+	abortButton: HTMLButtonElement;
+
+	constructor(app: App, plugin: KremsObsidianPlugin, absoluteLocalPath: string, strategy: SyncStrategy, feedbackUpdater: FeedbackUpdater) {
+		super(app);
+		this.plugin = plugin;
+		this.absoluteLocalPath = absoluteLocalPath;
+		this.strategy = strategy;
+		this.feedbackUpdater = feedbackUpdater;
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Resolve Sync Conflicts' });
+		contentEl.createEl('p', { text: `The ${this.strategy} stopped because these files were changed both locally and on the remote. Choose a version for each file, or open it in Obsidian, remove the conflict markers and mark it resolved.` });
+
+		this.listEl = contentEl.createDiv({ cls: 'krems-conflict-list' });
+		this.feedbackEl = contentEl.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap;' } }) as HTMLDivElement;
+
+		const buttonRow = contentEl.createDiv({ cls: 'krems-modal-section' });
+		this.continueButton = buttonRow.createEl('button', { text: `Continue ${this.strategy}`, cls: 'mod-cta' });
+		this.abortButton = buttonRow.createEl('button', { text: `Abort ${this.strategy}` });
+
+		this.continueButton.addEventListener('click', () => this.continueSync());
+		this.abortButton.addEventListener('click', () => this.abortSync());
+
+		await this.renderConflicts();
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+
+	setFeedback(message: string, type: 'status' | 'success' | 'error') {
+		this.feedbackEl.textContent = message;
+		this.feedbackEl.className = `krems-feedback krems-feedback-${type}`;
+	}
+
+	async renderConflicts() {
+		this.listEl.empty();
+		let conflictedFiles: string[] = [];
+		try {
+			conflictedFiles = await this.plugin.git.conflictedFiles(this.absoluteLocalPath);
+		} catch (error: any) {
+			this.setFeedback(`Could not list conflicted files: ${error.stderr || error.message}`, 'error');
+			return;
+		}
+
+		if (conflictedFiles.length === 0) {
+			this.listEl.createEl('p', { text: `All conflicts are resolved. Click "Continue ${this.strategy}" to finish.` });
+			this.continueButton.disabled = false;
+			return;
+		}
+
+		this.continueButton.disabled = true;
+		for (const file of conflictedFiles) {
+			new Setting(this.listEl)
+				.setName(file)
+				.addButton(button => button
+					.setButtonText('Keep mine')
+					.onClick(() => this.resolveWithVersion(file, 'mine')))
+				.addButton(button => button
+					.setButtonText('Keep theirs')
+					.onClick(() => this.resolveWithVersion(file, 'theirs')))
+				.addButton(button => button
+					.setButtonText('Open')
+					.onClick(() => this.openInObsidian(file)))
+				.addButton(button => button
+					.setButtonText('Mark resolved')
+					.onClick(() => this.markResolved(file)));
+		}
+	}
+
+	async resolveWithVersion(file: string, version: 'mine' | 'theirs') {
+		// During a rebase git replays local commits onto the remote, so "ours" is the remote side
+		const localSide = this.strategy === 'rebase' ? 'theirs' : 'ours';
+		const remoteSide = this.strategy === 'rebase' ? 'ours' : 'theirs';
+		const side = version === 'mine' ? localSide : remoteSide;
+
+		try {
+			try {
+				await this.plugin.git.checkoutConflictSide(this.absoluteLocalPath, side, file);
+				await this.plugin.git.add(this.absoluteLocalPath, [file]);
+			} catch (checkoutError: any) {
+				// The chosen side deleted the file, so resolving means removing it
+				if (!/does not have (our|their) version/.test(checkoutError.stderr || '')) {
+					throw checkoutError;
+				}
+				await this.plugin.git.remove(this.absoluteLocalPath, file);
+			}
+			this.setFeedback(`Resolved ${file} using ${version === 'mine' ? 'your local' : 'the remote'} version.`, 'success');
+		} catch (error: any) {
+			console.error('Conflict resolution error:', error.message || error);
+			this.setFeedback(`Could not resolve ${file}: ${error.stderr || error.message}`, 'error');
+		}
+		await this.renderConflicts();
+	}
+
+	async openInObsidian(file: string) {
+		// @ts-ignore
+		const vaultBasePath = this.app.vault.adapter.getBasePath();
+		const vaultRelativePath = path.relative(vaultBasePath, path.join(this.absoluteLocalPath, file)).split(path.sep).join('/');
+		const abstractFile = this.app.vault.getAbstractFileByPath(vaultRelativePath);
+		if (abstractFile instanceof TFile) {
+			await this.app.workspace.getLeaf(true).openFile(abstractFile);
+			this.setFeedback(`Opened ${file}. Remove the conflict markers, save, then click "Mark resolved".`, 'status');
+		} else {
+			this.setFeedback(`${file} is not available in the vault (it may have been deleted on one side). Use "Keep mine" or "Keep theirs".`, 'error');
+		}
+	}
+
+	async markResolved(file: string) {
+		const absoluteFilePath = path.join(this.absoluteLocalPath, file);
+		try {
+			if (fs.existsSync(absoluteFilePath)) {
+				const content = fs.readFileSync(absoluteFilePath, 'utf8');
+				if (/^(<{7}|>{7})( |$)/m.test(content)) {
+					this.setFeedback(`${file} still contains conflict markers (<<<<<<< / >>>>>>>). Edit the file before marking it resolved.`, 'error');
+					return;
+				}
+			}
+			await this.plugin.git.add(this.absoluteLocalPath, [file]);
+			this.setFeedback(`Marked ${file} as resolved.`, 'success');
+		} catch (error: any) {
+			this.setFeedback(`Could not mark ${file} as resolved: ${error.stderr || error.message}`, 'error');
+		}
+		await this.renderConflicts();
+	}
+
+	async continueSync() {
+		this.continueButton.disabled = true;
+		this.abortButton.disabled = true;
+		this.setFeedback(`Continuing ${this.strategy}...`, 'status');
+		const env = this.plugin.getGitAuthorEnv();
+
+		try {
+			if (this.strategy === 'rebase') {
+				try {
+					await this.plugin.git.rebaseContinue(this.absoluteLocalPath, env);
+				} catch (continueError: any) {
+					const output = `${continueError.stdout || ''}\n${continueError.stderr || ''}`;
+					// Keeping the remote version can leave a local commit empty; git wants it skipped
+					if (!output.includes('git rebase --skip') || (await this.plugin.git.conflictedFiles(this.absoluteLocalPath)).length > 0) {
+						throw continueError;
+					}
+					await this.plugin.git.rebaseSkip(this.absoluteLocalPath, env);
+				}
+			} else {
+				await this.plugin.git.concludeMerge(this.absoluteLocalPath, env);
+			}
+		} catch (error: any) {
+			const remainingConflicts = await this.plugin.git.conflictedFiles(this.absoluteLocalPath).catch(() => []);
+			if (remainingConflicts.length === 0) {
+				console.error('Continue sync error:', error.message || error);
+				this.plugin.actions.reportGitError(`Could not continue ${this.strategy}`, error, (message, type) => this.setFeedback(message, type));
+				this.abortButton.disabled = false;
+				this.continueButton.disabled = false;
+				return;
+			}
+			// The next replayed commit conflicts as well; show the new set of files
+			this.setFeedback(`More conflicts were found while continuing the ${this.strategy}.`, 'error');
+			this.abortButton.disabled = false;
+			await this.renderConflicts();
+			return;
+		}
+
+		if (detectSyncInProgress(this.absoluteLocalPath)) {
+			this.abortButton.disabled = false;
+			await this.renderConflicts();
+			return;
+		}
+
+		this.feedbackUpdater(`Conflicts resolved and ${this.strategy} completed. Remote changes are now in your site folder.`, 'success');
+		this.close();
+	}
+
+	async abortSync() {
+		if (!confirm(`Abort the ${this.strategy}? Your local files will be restored to how they were before the pull.`)) {
+			return;
+		}
+		try {
+			await this.plugin.git.abortSync(this.absoluteLocalPath, this.strategy);
+			this.feedbackUpdater(`The ${this.strategy} was aborted. No remote changes were applied.`, 'status');
+			this.close();
+		} catch (error: any) {
+			console.error('Abort sync error:', error.message || error);
+			this.setFeedback(`Could not abort ${this.strategy}: ${error.stderr || error.message}`, 'error');
+		}
+	}
+}
@@ -0,0 +1,168 @@
+import { Notice } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { parseRemoteUrl } from './git';
+
+// Checked in order; the first one that is set wins over the stored token
+export const TOKEN_ENV_VARS = ['KREMS_GIT_TOKEN', 'GITHUB_TOKEN', 'GH_TOKEN'];
+
+const SECRET_ID = 'krems-git-token';
+
+// Environment variable the credential helper reads the token from. Git only ever sees the variable name.
+const CREDENTIAL_ENV_VAR = 'KREMS_GIT_CREDENTIAL';
+
+// Answers git's "get" requests with the token and ignores "store"/"erase", so the token is never written anywhere
+const CREDENTIAL_HELPER = `!f() { test "$1" = get && echo username=x-access-token && echo "password=$${CREDENTIAL_ENV_VAR}"; }; f`;
+
+export type TokenSource = 'environment' | 'secure-storage' | 'plain-text';
+
+export interface StoredToken {
+	token: string;
+	source: TokenSource;
+	detail: string; // Variable name or storage backend, for display
+}
+
+// Secret storage added in newer Obsidian versions; not in the typings this plugin builds against
+interface ObsidianSecretStorage {
+	getSecret(id: string): string | null | Promise<string | null>;
+	setSecret(id: string, secret: string): void | Promise<void>;
+}
+
+interface ElectronSafeStorage {
+	isEncryptionAvailable(): boolean;
+	encryptString(plainText: string): Buffer;
+	decryptString(encrypted: Buffer): string;
+}
+
+function getElectronSafeStorage(): ElectronSafeStorage | null {
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-var-requires
+		const electron = require('electron');
+		const safeStorage: ElectronSafeStorage | undefined = electron?.remote?.safeStorage || electron?.safeStorage;
+		return safeStorage && safeStorage.isEncryptionAvailable() ? safeStorage : null;
+	} catch {
+		return null;
+	}
+}
+
+// Keeps the Git token out of data.json: it is read from the environment or from the
+// OS-backed secure storage, and handed to git through a credential helper instead of the URL.
+export class CredentialStore {
+	plugin: KremsObsidianPlugin;
+
+	constructor(plugin: KremsObsidianPlugin) {
+		this.plugin = plugin;
+	}
+
+	getSecretStorage(): ObsidianSecretStorage | null {
+		// @ts-ignore
+		const secretStorage = this.plugin.app.secretStorage;
+		return secretStorage && typeof secretStorage.getSecret === 'function' ? secretStorage : null;
+	}
+
+	// Name of the backend tokens are saved to, or null when this device has none
+	getSecureStorageName(): string | null {
+		if (this.getSecretStorage()) return 'Obsidian secret storage';
+		if (getElectronSafeStorage()) return 'system keychain';
+		return null;
+	}
+
+	getEnvironmentToken(): StoredToken | null {
+		for (const name of TOKEN_ENV_VARS) {
+			const value = process.env[name];
+			if (value) {
+				return { token: value, source: 'environment', detail: name };
+			}
+		}
+		return null;
+	}
+
+	async getToken(): Promise<StoredToken | null> {
+		const environmentToken = this.getEnvironmentToken();
+		if (environmentToken) {
+			return environmentToken;
+		}
+
+		const secretStorage = this.getSecretStorage();
+		if (secretStorage) {
+			const secret = await secretStorage.getSecret(SECRET_ID);
+			if (secret) {
+				return { token: secret, source: 'secure-storage', detail: 'Obsidian secret storage' };
+			}
+		}
+
+		const safeStorage = getElectronSafeStorage();
+		const encrypted = this.plugin.settings.encryptedGitToken;
+		if (safeStorage && encrypted) {
+			try {
+				const token = safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+				return { token, source: 'secure-storage', detail: 'system keychain' };
+			} catch (error: any) {
+				console.error('Could not decrypt the stored Git token:', error.message || error);
+			}
+		}
+
+		// Left in data.json by an earlier version because it could not be moved to secure storage yet
+		const legacyToken = this.plugin.settings.gitPassword;
+		return legacyToken ? { token: legacyToken, source: 'plain-text', detail: "plugin's data.json (not encrypted)" } : null;
+	}
+
+	// Saves the token to secure storage; an empty token clears it. Throws when no secure storage exists.
+	async setToken(token: string): Promise<void> {
+		const secretStorage = this.getSecretStorage();
+		if (secretStorage) {
+			await secretStorage.setSecret(SECRET_ID, token);
+			return;
+		}
+
+		if (!token) {
+			this.plugin.settings.encryptedGitToken = '';
+			await this.plugin.saveSettings();
+			return;
+		}
+		const safeStorage = getElectronSafeStorage();
+		if (!safeStorage) {
+			throw new Error(`Secure storage is not available on this device. Set the ${TOKEN_ENV_VARS[0]} environment variable instead.`);
+		}
+		this.plugin.settings.encryptedGitToken = safeStorage.encryptString(token).toString('base64');
+		await this.plugin.saveSettings();
+	}
+
+	// Moves a plain-text token saved by earlier versions into secure storage. Until that works the
+	// token keeps being used from data.json, and every load says so.
+	async migratePlainTextToken(): Promise<void> {
+		const legacyToken = this.plugin.settings.gitPassword;
+		if (!legacyToken) {
+			return;
+		}
+		try {
+			await this.setToken(legacyToken);
+			delete this.plugin.settings.gitPassword;
+			await this.plugin.saveSettings();
+		} catch (error: any) {
+			console.warn('Could not move the Git token to secure storage:', error.message || error);
+			new Notice(`Krems: your GitHub token could not be moved to secure storage (${error.message || error}). It is still used, but stays unencrypted in the plugin's data.json. Set the ${TOKEN_ENV_VARS[0]} environment variable instead and remove the token in the plugin settings.`, 15000);
+		}
+	}
+
+	// Environment for git commands that talk to the remote. For HTTPS remotes with a token, a one-off
+	// credential helper is configured through GIT_CONFIG_* variables (git 2.31+). Any helpers the user
+	// configured are cleared for these commands so the token is not saved by them.
+	async getRemoteEnv(remoteUrl: string): Promise<NodeJS.ProcessEnv> {
+		const remote = parseRemoteUrl(remoteUrl);
+		if (!remote || remote.protocol !== 'https') {
+			return {};
+		}
+		const stored = await this.getToken();
+		if (!stored) {
+			return {};
+		}
+		return {
+			GIT_CONFIG_COUNT: '2',
+			GIT_CONFIG_KEY_0: 'credential.helper',
+			GIT_CONFIG_VALUE_0: '',
+			GIT_CONFIG_KEY_1: 'credential.helper',
+			GIT_CONFIG_VALUE_1: CREDENTIAL_HELPER,
+			[CREDENTIAL_ENV_VAR]: stored.token,
+		};
+	}
+}
@@ -0,0 +1,220 @@
+import { Notice } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { parseRemoteUrl } from './git';
+import { GitHubClient, GitHubTransport, PAGES_DEPLOYMENT_RUN_NAME, PagesSite, RequestUrlTransport, WorkflowRun, getGitHubApiBaseUrl } from './githubApi';
+import { readSiteConfig } from './siteConfig';
+
+export type DeploymentState = 'waiting' | 'queued' | 'in_progress' | 'deploying' | 'success' | 'failure' | 'not_found' | 'error' | 'skipped';
+
+export interface DeploymentStatus {
+	sha: string;
+	state: DeploymentState;
+	message: string;
+	logsUrl?: string; // Workflow run page on GitHub
+	siteUrl?: string; // Set once the build succeeded
+	startedAt: Date;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const RUN_SEARCH_TIMEOUT_MS = 2 * 60 * 1000; // GitHub usually lists the run within seconds
+const PAGES_SEARCH_TIMEOUT_MS = 60 * 1000; // pages-build-deployment starts while the build is still running
+const DEPLOY_TIMEOUT_MS = 20 * 60 * 1000;
+
+// Combines the runs of one commit (e.g. a build workflow and "pages-build-deployment") into one state
+export function summarizeRuns(runs: WorkflowRun[]): { state: DeploymentState; run: WorkflowRun } {
+	const failed = runs.find(run => run.status === 'completed' && run.conclusion !== 'success' && run.conclusion !== 'skipped' && run.conclusion !== 'neutral');
+	if (failed) return { state: 'failure', run: failed };
+	const active = runs.find(run => run.status !== 'completed');
+	if (active) return { state: active.status === 'in_progress' ? 'in_progress' : 'queued', run: active };
+	return { state: 'success', run: runs[0] };
+}
+
+// Follows the GitHub Actions runs of the last pushed commit until the site is deployed or the
+// build fails. A site served from a branch (gh-pages) is only live once the "pages-build-deployment"
+// run that follows the build has finished, so that run is followed too. Lives on the plugin so the
+// status survives the Krems view being closed.
+export class DeploymentMonitor {
+	plugin: KremsObsidianPlugin;
+	transport: GitHubTransport = new RequestUrlTransport(); // Replaceable, e.g. to talk to a mock server
+	status: DeploymentStatus | null = null;
+	timer: number | null = null;
+	listeners: (() => void)[] = [];
+
+	constructor(plugin: KremsObsidianPlugin) {
+		this.plugin = plugin;
+	}
+
+	onChange(listener: () => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter(existing => existing !== listener);
+		};
+	}
+
+	emit() {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	isActive(): boolean {
+		return !!this.status && (this.status.state === 'waiting' || this.status.state === 'queued' || this.status.state === 'in_progress' || this.status.state === 'deploying');
+	}
+
+	// Updates the tracked status in place: polling compares it by identity to notice a newer push
+	setStatus(update: Partial<DeploymentStatus>) {
+		if (!this.status) return;
+		Object.assign(this.status, update);
+		this.emit();
+	}
+
+	async createClient(host: string): Promise<GitHubClient> {
+		const baseUrl = this.plugin.settings.githubApiUrl || getGitHubApiBaseUrl(host);
+		const stored = await this.plugin.credentials.getToken();
+		return new GitHubClient(baseUrl, stored ? stored.token : null, this.transport);
+	}
+
+	// Records why a pushed commit is not followed, replacing whatever was tracked before
+	skip(sha: string, message: string) {
+		this.stop();
+		this.status = { sha, state: 'skipped', message, startedAt: new Date() };
+		this.emit();
+	}
+
+	// Starts following the workflow runs of `sha`, replacing whatever was tracked before
+	async track(sha: string) {
+		this.stop();
+		const { githubRepoUrl, localMarkdownPath } = this.plugin.getActiveProfile();
+		const remote = parseRemoteUrl(githubRepoUrl);
+		if (!remote || this.plugin.settings.trackDeployments === false) {
+			return;
+		}
+		const status: DeploymentStatus = { sha, state: 'waiting', message: 'Waiting for GitHub Actions to start...', startedAt: new Date() };
+		this.status = status;
+		this.emit();
+
+		let client: GitHubClient;
+		try {
+			client = await this.createClient(remote.host);
+		} catch (error: any) {
+			this.setStatus({ state: 'error', message: `Could not check the deployment: ${error.message || error}` });
+			return;
+		}
+
+		// Set once the runs of the pushed commit succeeded and the Pages deployment still has to finish
+		let built: { run: WorkflowRun; pages: PagesSite | null | undefined; at: number } | null = null;
+
+		const poll = async () => {
+			this.timer = null;
+			if (this.status !== status) return; // Replaced by a newer push
+			const elapsed = Date.now() - status.startedAt.getTime();
+			try {
+				if (built) {
+					const deployments = await client.getPagesDeploymentRuns(remote.owner, remote.repo, built.run.createdAt);
+					if (this.status !== status) return;
+					if (deployments.length === 0) {
+						if (Date.now() - built.at > PAGES_SEARCH_TIMEOUT_MS) {
+							await this.finish(localMarkdownPath, built.run, built.pages, false);
+							return;
+						}
+					} else {
+						const { state, run } = summarizeRuns([deployments[0]]);
+						if (state === 'success') {
+							await this.finish(localMarkdownPath, run, built.pages, true);
+							return;
+						}
+						if (state === 'failure') {
+							this.setStatus({ state, logsUrl: run.htmlUrl, message: `The build finished, but "${run.name}" ${run.conclusion === 'cancelled' ? 'was cancelled' : 'failed'}, so the site was not updated. Open the logs to see why.` });
+							new Notice('Krems: the site was built, but GitHub Pages failed to deploy it.', 10000);
+							return;
+						}
+						this.setStatus({ state: 'deploying', logsUrl: run.htmlUrl, message: 'Build finished, deploying to GitHub Pages...' });
+					}
+				} else {
+					const runs = await client.getWorkflowRunsForCommit(remote.owner, remote.repo, sha);
+					if (this.status !== status) return;
+					if (runs.length === 0) {
+						if (elapsed > RUN_SEARCH_TIMEOUT_MS) {
+							this.setStatus({ state: 'not_found', message: 'No GitHub Actions run started for this push. Check that the repository has a deploy workflow.' });
+							return;
+						}
+					} else {
+						const { state, run } = summarizeRuns(runs);
+						if (state === 'success') {
+							const pages = await this.getPagesSite(client, remote.owner, remote.repo);
+							if (this.status !== status) return;
+							// Pages served from this commit's branch deploys in a run of this commit, and Pages
+							// deployed by a workflow is live once that workflow succeeded
+							if (pages?.buildType !== 'legacy' || runs.some(candidate => candidate.name === PAGES_DEPLOYMENT_RUN_NAME)) {
+								await this.finish(localMarkdownPath, run, pages, pages?.buildType === 'legacy' || pages?.buildType === 'workflow');
+								return;
+							}
+							built = { run, pages, at: Date.now() };
+							this.setStatus({ state: 'deploying', logsUrl: run.htmlUrl, message: 'Build finished, waiting for GitHub Pages to deploy it...' });
+						} else if (state === 'failure') {
+							this.setStatus({ state, logsUrl: run.htmlUrl, message: `"${run.name}" ${run.conclusion === 'cancelled' ? 'was cancelled' : 'failed'}. Open the logs to see why.` });
+							new Notice(`Krems: the site build "${run.name}" failed on GitHub Actions.`, 10000);
+							return;
+						} else {
+							this.setStatus({ state, logsUrl: run.htmlUrl, message: state === 'queued' ? `"${run.name}" is queued...` : `"${run.name}" is running...` });
+						}
+					}
+				}
+			} catch (error: any) {
+				console.error('Deployment status error:', error);
+				this.setStatus({ state: 'error', message: `Could not check the deployment: ${error.message || error}` });
+				return;
+			}
+			if (elapsed > DEPLOY_TIMEOUT_MS) {
+				this.setStatus({ state: 'error', message: 'Stopped following the deployment after 20 minutes. Open the logs on GitHub.' });
+				return;
+			}
+			this.timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+		};
+		this.timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+	}
+
+	// Undefined when the Pages settings could not be read
+	async getPagesSite(client: GitHubClient, owner: string, repo: string): Promise<PagesSite | null | undefined> {
+		try {
+			return await client.getPagesSite(owner, repo);
+		} catch (error: any) {
+			console.warn('Could not read the GitHub Pages settings:', error.message || error);
+			return undefined;
+		}
+	}
+
+	// `deployed` is false when the build succeeded but GitHub did not report the deployment of the site
+	async finish(localMarkdownPath: string, run: WorkflowRun, pages: PagesSite | null | undefined, deployed: boolean) {
+		let siteUrl = pages?.url || null;
+		if (!siteUrl && localMarkdownPath) {
+			try {
+				siteUrl = (await readSiteConfig(this.plugin.app, localMarkdownPath)).website.url || null;
+			} catch {
+				// No usable config.yaml
+			}
+		}
+		if (deployed) {
+			this.setStatus({ state: 'success', logsUrl: run.htmlUrl, siteUrl: siteUrl || undefined, message: siteUrl ? `Deployed to ${siteUrl}` : 'Deployed.' });
+			new Notice(`Krems: site deployed${siteUrl ? ` to ${siteUrl}` : ''}.`);
+			return;
+		}
+		const message = pages === null
+			? 'Build finished, but GitHub Pages is not enabled for the repository. Select the gh-pages branch under Settings > Pages on GitHub to publish it.'
+			: 'Build finished. GitHub did not report the Pages deployment, so the site may show the old version for a few more minutes.';
+		this.setStatus({ state: 'success', logsUrl: run.htmlUrl, siteUrl: siteUrl || undefined, message });
+		new Notice('Krems: site built on GitHub Actions.');
+	}
+
+	stop() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	dispose() {
+		this.stop();
+		this.listeners = [];
+	}
+}
@@ -0,0 +1,120 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ChangedFile } from './git';
+import { SitePage, getSitePages } from './siteIndex';
+
+// Markdown links and images, plus HTML src/href attributes
+const LINK_TARGET_REGEX = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|\b(?:src|href)\s*=\s*"([^"]+)"/g;
+
+export function getDraftPages(app: App, localMarkdownPath: string): SitePage[] {
+	return getSitePages(app, localMarkdownPath)
+		.filter(page => page.isDraft)
+		.sort((a, b) => a.sitePath.localeCompare(b.sitePath));
+}
+
+// Site-relative paths of every draft page
+export function getDraftPaths(app: App, localMarkdownPath: string): Set<string> {
+	return new Set(getDraftPages(app, localMarkdownPath).map(page => page.sitePath));
+}
+
+// Splits git changes into the ones that may be committed and the ones that belong to drafts.
+// A rename counts as a draft change when either side of it is a draft.
+export function separateDraftChanges(changes: ChangedFile[], draftPaths: Set<string>): { publishable: ChangedFile[]; drafts: ChangedFile[] } {
+	const publishable: ChangedFile[] = [];
+	const drafts: ChangedFile[] = [];
+	for (const change of changes) {
+		const isDraft = draftPaths.has(change.path) || (!!change.origPath && draftPaths.has(change.origPath));
+		(isDraft ? drafts : publishable).push(change);
+	}
+	return { publishable, drafts };
+}
+
+// Clears `draft` and sets `publish: true` when the page had `publish: false`
+export async function markPagePublished(app: App, file: TFile): Promise<void> {
+	await app.fileManager.processFrontMatter(file, frontmatter => {
+		if ('draft' in frontmatter) {
+			delete frontmatter.draft;
+		}
+		if ('publish' in frontmatter) {
+			frontmatter.publish = true;
+		}
+	});
+}
+
+// Site-relative paths of the files a page uses: its front matter `image` and every local,
+// non-Markdown file it links to or embeds (images, PDFs and so on)
+export async function getPageAssetPaths(app: App, localMarkdownPath: string, file: TFile): Promise<string[]> {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const pageDir = path.posix.dirname(file.path.substring(siteRoot.length + 1));
+	const content = await app.vault.read(file);
+	const targets: string[] = [];
+	const image = app.metadataCache.getFileCache(file)?.frontmatter?.image;
+	if (typeof image === 'string') {
+		targets.push(image.trim());
+	}
+	const linkRegex = new RegExp(LINK_TARGET_REGEX.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = linkRegex.exec(content)) !== null) {
+		targets.push(match[1] || match[2]);
+	}
+
+	const assets = new Set<string>();
+	for (const target of targets) {
+		if (!target || /^([a-z][a-z0-9+.-]*:|#|\/\/)/i.test(target)) {
+			continue; // External URL, mailto: or in-page anchor
+		}
+		let decoded: string;
+		try {
+			decoded = decodeURI(target.split(/[?#]/)[0]);
+		} catch {
+			continue;
+		}
+		const sitePath = decoded.startsWith('/')
+			? path.posix.normalize(decoded.substring(1))
+			: path.posix.normalize(path.posix.join(pageDir, decoded));
+		if (sitePath.startsWith('..') || sitePath.endsWith('.md')) {
+			continue;
+		}
+		if (app.vault.getAbstractFileByPath(`${siteRoot}/${sitePath}`) instanceof TFile) {
+			assets.add(sitePath);
+		}
+	}
+	return Array.from(assets);
+}
+
+// Mirrors a site folder into `targetDir` without the excluded (site-relative) files, so Krems can
+// build a preview that leaves drafts out. Only files whose size or modification time changed are
+// copied. Hidden entries such as .git and Krems' .tmp build folder are skipped on both sides.
+export async function syncSiteCopy(sourceDir: string, targetDir: string, excluded: Set<string>, relativeDir = ''): Promise<void> {
+	const sourcePath = path.join(sourceDir, relativeDir);
+	const targetPath = path.join(targetDir, relativeDir);
+	await fs.promises.mkdir(targetPath, { recursive: true });
+
+	const kept = new Set<string>();
+	for (const entry of await fs.promises.readdir(sourcePath, { withFileTypes: true })) {
+		const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+		if (entry.name.startsWith('.') || excluded.has(relativePath)) {
+			continue;
+		}
+		kept.add(entry.name);
+		if (entry.isDirectory()) {
+			await syncSiteCopy(sourceDir, targetDir, excluded, relativePath);
+		} else if (entry.isFile()) {
+			const from = path.join(sourcePath, entry.name);
+			const to = path.join(targetPath, entry.name);
+			const sourceStat = await fs.promises.stat(from);
+			const targetStat = await fs.promises.stat(to).catch(() => null);
+			if (!targetStat || targetStat.size !== sourceStat.size || targetStat.mtimeMs !== sourceStat.mtimeMs) {
+				await fs.promises.copyFile(from, to);
+				await fs.promises.utimes(to, sourceStat.atime, sourceStat.mtime);
+			}
+		}
+	}
+
+	for (const entry of await fs.promises.readdir(targetPath, { withFileTypes: true })) {
+		if (!entry.name.startsWith('.') && !kept.has(entry.name)) {
+			await fs.promises.rm(path.join(targetPath, entry.name), { recursive: true, force: true });
+		}
+	}
+}
@@ -0,0 +1,114 @@
+import { App, normalizePath } from 'obsidian';
+import { ReportIssue } from './reportModal';
+import { SitePage, getListPageMatches, getSitePages } from './siteIndex';
+import { DEFAULT_MAX_IMAGE_SIZE_KB } from './imageIngest';
+
+// Zero-based line of a front matter key, so the report can jump straight to it
+function findKeyLine(content: string, key: string): number | undefined {
+	const lines = content.split('\n');
+	if (lines[0]?.trim() !== '---') return undefined;
+	for (let i = 1; i < lines.length && lines[i].trim() !== '---'; i++) {
+		if (lines[i].startsWith(`${key}:`)) return i;
+	}
+	return undefined;
+}
+
+// Null for a path with a malformed %-escape, which decodeURI rejects
+function decodeUrlPath(urlPath: string): string | null {
+	try {
+		return decodeURI(urlPath);
+	} catch {
+		return null;
+	}
+}
+
+// Checks the front matter of every page against the Krems page types described in the README
+export async function lintFrontMatter(app: App, localMarkdownPath: string, maxImageSizeKB = DEFAULT_MAX_IMAGE_SIZE_KB): Promise<ReportIssue[]> {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const pages = getSitePages(app, localMarkdownPath);
+	const listPages = pages.filter(page => page.isList);
+	const issues: ReportIssue[] = [];
+	const listedPages = new Set<SitePage>();
+
+	for (const listPage of listPages) {
+		getListPageMatches(listPage, pages).forEach(page => listedPages.add(page));
+	}
+
+	for (const page of pages) {
+		// Drafts are work in progress; they are checked once they are published
+		if (page.isDraft) continue;
+		const content = await app.vault.cachedRead(page.file);
+		const addIssue = (severity: 'error' | 'warning', message: string, key?: string) => {
+			issues.push({ file: page.file.path, line: key ? findKeyLine(content, key) ?? 0 : 0, severity, message });
+		};
+
+		if (Object.keys(page.frontmatter).length === 0) {
+			addIssue('error', 'No front matter. Every Krems page needs at least a title.');
+			continue;
+		}
+
+		if (!page.title) {
+			addIssue('error', 'Missing "title".', 'title');
+		}
+
+		const type = page.frontmatter.type;
+		if (type !== undefined && type !== 'list') {
+			addIssue('warning', `Unknown page type "${type}". Use "type: list" for list pages or leave it out for default pages.`, 'type');
+		}
+
+		if (page.isList) {
+			for (const key of ['tagFilter', 'authorFilter']) {
+				const value = page.frontmatter[key];
+				if (value !== undefined && value !== null && !Array.isArray(value)) {
+					addIssue('warning', `"${key}" should be a list, e.g.\n${key}:\n  - value`, key);
+				}
+			}
+			if (getListPageMatches(page, pages).length === 0) {
+				const hasFilters = page.tagFilter.length > 0 || page.authorFilter.length > 0;
+				addIssue('warning', hasFilters
+					? 'List filters match no dated pages, so this list will be empty.'
+					: 'No dated pages in this folder, so this list will be empty.', hasFilters ? (page.tagFilter.length > 0 ? 'tagFilter' : 'authorFilter') : 'type');
+			}
+			continue;
+		}
+
+		if (page.rawDate !== undefined && !page.date) {
+			addIssue('error', `Date "${page.rawDate}" cannot be parsed. Use YYYY-MM-DD, e.g. "2024-11-26".`, 'date');
+		}
+
+		const image = page.frontmatter.image;
+		if (image !== undefined && image !== null && image !== '') {
+			const imagePath = String(image).trim();
+			if (/^https?:\/\//.test(imagePath)) {
+				addIssue('warning', `Image "${imagePath}" is an external URL. Krems expects images under /images.`, 'image');
+			} else if (!imagePath.startsWith('/images/')) {
+				addIssue('error', `Image "${imagePath}" must be an absolute path under /images, e.g. "/images/photo.png".`, 'image');
+			} else if (decodeUrlPath(imagePath) === null) {
+				addIssue('error', `Image "${imagePath}" contains an invalid %-escape. Use %20 for a space, or write the file name as it is.`, 'image');
+			} else {
+				const imageStat = await app.vault.adapter.stat(`${siteRoot}${decodeUrlPath(imagePath)}`);
+				if (!imageStat) {
+					addIssue('error', `Image "${imagePath}" does not exist in the site folder.`, 'image');
+				} else if (imageStat.size > maxImageSizeKB * 1024) {
+					addIssue('warning', `Image "${imagePath}" is ${Math.round(imageStat.size / 1024)} KB. Link previews load this Open Graph image slowly; keep it under ${maxImageSizeKB} KB.`, 'image');
+				}
+			}
+		}
+
+		const tags = page.frontmatter.tags;
+		if (tags !== undefined && tags !== null && !Array.isArray(tags)) {
+			addIssue('warning', '"tags" should be a list, e.g. tags: ["about"].', 'tags');
+		}
+
+		const author = page.frontmatter.author;
+		if (author !== undefined && author !== null && typeof author !== 'string') {
+			addIssue('warning', '"author" should be a single name.', 'author');
+		}
+
+		if (page.date && !listedPages.has(page)) {
+			addIssue('warning', 'Dated page does not appear on any list page. Readers can only reach it by direct link or menu.', 'date');
+		}
+	}
+
+	return issues;
+}
@@ -0,0 +1,100 @@
+import { App, Modal } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { FeedbackUpdater } from './siteActions';
+import { GitFix, GitProblem } from './gitErrors';
+import { NewBranchModal } from './branchModal';
+
+const GIT_DOWNLOAD_URL = 'https://git-scm.com/downloads';
+const GITHUB_SSH_FINGERPRINTS_URL = 'https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/githubs-ssh-key-fingerprints';
+
+// Explains a recognized git failure and offers the fixes for it. Fixes report to the same
+// feedback line as the action that failed.
+export class GitErrorModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	problem: GitProblem;
+	feedbackUpdater: FeedbackUpdater;
+
+	constructor(app: App, plugin: KremsObsidianPlugin, problem: GitProblem, feedbackUpdater: FeedbackUpdater) {
+		super(app);
+		this.plugin = plugin;
+		this.problem = problem;
+		this.feedbackUpdater = feedbackUpdater;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: this.problem.title });
+		contentEl.createEl('p', { text: this.problem.explanation });
+		if (this.problem.output) {
+			const details = contentEl.createEl('details', { cls: 'krems-git-error-output' });
+			details.createEl('summary', { text: 'Git output' });
+			details.createEl('pre', { text: this.problem.output });
+		}
+
+		const buttonRow = contentEl.createDiv({ cls: 'krems-modal-section' });
+		this.problem.fixes.forEach((fix, index) => {
+			const label = this.getFixLabel(fix);
+			if (!label) return;
+			const button = buttonRow.createEl('button', { text: label, cls: index === 0 ? 'mod-cta' : '' });
+			button.addEventListener('click', () => {
+				this.close();
+				this.applyFix(fix);
+			});
+		});
+		buttonRow.createEl('button', { text: 'Close' }).addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+
+	// Null when the fix does not apply right now
+	getFixLabel(fix: GitFix): string | null {
+		const { actions } = this.plugin;
+		const defaultBranch = actions.repoStatus?.defaultBranch;
+		switch (fix) {
+			case 'pull-and-push': return `Pull (${actions.getPullStrategy()}) and Push`;
+			case 'push-set-upstream': return 'Push Branch to GitHub';
+			case 'open-settings': return 'Open Settings';
+			case 'install-git': return 'Download Git';
+			case 'ssh-fingerprints': return "GitHub's SSH Fingerprints";
+			case 'switch-to-default': return defaultBranch ? `Switch to ${defaultBranch}` : null;
+			case 'new-branch': return 'Create Branch Here';
+		}
+	}
+
+	async applyFix(fix: GitFix) {
+		const { actions } = this.plugin;
+		switch (fix) {
+			case 'pull-and-push':
+				if (await actions.pull(this.feedbackUpdater)) {
+					await actions.pushBranch(this.feedbackUpdater);
+				}
+				break;
+			case 'push-set-upstream':
+				await actions.pushBranch(this.feedbackUpdater);
+				break;
+			case 'open-settings':
+				this.plugin.openSettings();
+				break;
+			case 'install-git':
+				window.open(GIT_DOWNLOAD_URL);
+				break;
+			case 'ssh-fingerprints':
+				window.open(GITHUB_SSH_FINGERPRINTS_URL);
+				break;
+			case 'switch-to-default': {
+				const defaultBranch = actions.repoStatus?.defaultBranch;
+				if (defaultBranch && confirm(`Switch to ${defaultBranch}? Commits made without a branch are left behind; create a branch here first to keep them.`)) {
+					await actions.switchBranch(defaultBranch, this.feedbackUpdater);
+				}
+				break;
+			}
+			case 'new-branch':
+				new NewBranchModal(this.app, name => actions.createBranch(name, this.feedbackUpdater)).open();
+				break;
+		}
+	}
+}
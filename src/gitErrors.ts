@@ -0,0 +1,89 @@
+export type GitProblemKind = 'git-missing' | 'host-key' | 'identity' | 'detached-head' | 'no-upstream' | 'non-fast-forward' | 'auth' | 'not-empty';
+
+// One-click ways out, offered by GitErrorModal
+export type GitFix = 'pull-and-push' | 'push-set-upstream' | 'open-settings' | 'install-git' | 'ssh-fingerprints' | 'switch-to-default' | 'new-branch';
+
+export interface GitProblem {
+	kind: GitProblemKind;
+	title: string;
+	explanation: string;
+	fixes: GitFix[];
+	output?: string; // What git printed, for the details
+}
+
+interface GitProblemDefinition {
+	pattern: RegExp;
+	title: string;
+	explanation: string;
+	fixes: GitFix[];
+}
+
+// Checked in this order: git's advice often contains phrases of later problems
+// (a host key failure also says "Could not read from remote repository").
+const GIT_PROBLEMS: Record<GitProblemKind, GitProblemDefinition> = {
+	'git-missing': {
+		pattern: /git was not found|spawn git ENOENT|'git' is not recognized|git: command not found/i,
+		title: 'Git is not installed',
+		explanation: 'The plugin runs the git command line tool, which was not found. Install Git, make sure it is on your PATH, then restart Obsidian.',
+		fixes: ['install-git'],
+	},
+	'host-key': {
+		pattern: /Host key verification failed|REMOTE HOST IDENTIFICATION HAS CHANGED|authenticity of host .* can't be established/i,
+		title: "GitHub's SSH host key is not trusted",
+		explanation: 'SSH has not connected to GitHub from this computer before (or the key it remembers changed), and Obsidian cannot show the prompt that asks you to trust it. Run "ssh -T git@github.com" once in a terminal and accept the key after comparing it with GitHub\'s published fingerprints, or switch the repository URL to HTTPS in the settings.',
+		fixes: ['ssh-fingerprints', 'open-settings'],
+	},
+	'identity': {
+		pattern: /Please tell me who you are|Author identity unknown|Committer identity unknown|empty ident name|unable to auto-detect email address/i,
+		title: 'Git does not know who you are',
+		explanation: 'Every commit needs an author name and email. Set Git Author Name and Git Author Email in the settings.',
+		fixes: ['open-settings'],
+	},
+	'detached-head': {
+		pattern: /You are not currently on a branch|detached HEAD/i,
+		title: 'Not on a branch',
+		explanation: 'The site folder has a single commit checked out instead of a branch (a "detached HEAD"), so there is no branch to push. Switch back to the publishing branch, or create a branch here to keep any commits made since.',
+		fixes: ['switch-to-default', 'new-branch'],
+	},
+	'no-upstream': {
+		pattern: /has no upstream branch|There is no tracking information|no upstream configured/i,
+		title: 'The branch is not on GitHub yet',
+		explanation: 'The current branch has no upstream branch to pull from or push to. Push it to create it on GitHub and track it from then on.',
+		fixes: ['push-set-upstream'],
+	},
+	'non-fast-forward': {
+		pattern: /non-fast-forward|\[rejected\].*\(fetch first\)|Updates were rejected because the (remote|tip)/i,
+		title: 'GitHub has commits you do not have',
+		explanation: 'The branch on GitHub has moved on since your last pull (an edit on github.com or from another machine), so your commits cannot be pushed on top of it. Pull to bring those commits in, then push again. Your own commits are kept.',
+		fixes: ['pull-and-push'],
+	},
+	'auth': {
+		pattern: /Authentication failed|Permission denied \(publickey|could not read (Username|Password)|Invalid username or password|terminal prompts disabled|Permission to \S+ denied|The requested URL returned error: 40[13]|Repository not found/i,
+		title: 'GitHub refused access',
+		explanation: 'Git could not sign in to GitHub, or the account has no write access to the repository. With an HTTPS URL, save a Personal Access Token with write access to the repository in the settings. With an SSH URL, make sure your SSH key is added to your GitHub account.',
+		fixes: ['open-settings'],
+	},
+	'not-empty': {
+		pattern: /already exists and is not an empty directory/,
+		title: 'The folder is not empty',
+		explanation: 'Directory already exists and is not empty. If you have existing changes, please commit and push them. If you want to start fresh, please delete the directory and try again. If there are git conflicts, please resolve them manually.',
+		fixes: [],
+	},
+};
+
+// What git said about a failure: stderr when there is any, the error message otherwise
+export function gitErrorOutput(error: any): string {
+	return (error && (error.stderr || error.message)) || String(error);
+}
+
+export function getGitProblem(kind: GitProblemKind, output?: string): GitProblem {
+	const { title, explanation, fixes } = GIT_PROBLEMS[kind];
+	return { kind, title, explanation, fixes, output };
+}
+
+// Recognizes common git failures from their output. Null when the failure is not one of them.
+export function classifyGitError(error: any): GitProblem | null {
+	const text = `${error?.stderr || ''}\n${error?.message || ''}`;
+	const kind = (Object.keys(GIT_PROBLEMS) as GitProblemKind[]).find(candidate => GIT_PROBLEMS[candidate].pattern.test(text));
+	return kind ? getGitProblem(kind, gitErrorOutput(error)) : null;
+}
@@ -0,0 +1,137 @@
+import { requestUrl } from 'obsidian';
+
+export interface GitHubRequest {
+	method: 'GET';
+	url: string;
+	headers: Record<string, string>;
+}
+
+export interface GitHubResponse {
+	status: number;
+	json: any;
+}
+
+// Sends GitHub API requests. Resolves with any HTTP status rather than rejecting,
+// so a local mock server or an in-memory fake can stand in for GitHub.
+export interface GitHubTransport {
+	request(request: GitHubRequest): Promise<GitHubResponse>;
+}
+
+// Uses Obsidian's requestUrl, which is not subject to CORS
+export class RequestUrlTransport implements GitHubTransport {
+	async request(request: GitHubRequest): Promise<GitHubResponse> {
+		const response = await requestUrl({ url: request.url, method: request.method, headers: request.headers, throw: false });
+		let json: any = null;
+		try {
+			json = response.json;
+		} catch {
+			// Empty or non-JSON body
+		}
+		return { status: response.status, json };
+	}
+}
+
+export class GitHubApiError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = 'GitHubApiError';
+		this.status = status;
+	}
+}
+
+export type WorkflowRunStatus = 'queued' | 'in_progress' | 'completed' | 'waiting' | 'requested' | 'pending';
+
+export interface WorkflowRun {
+	id: number;
+	name: string;
+	status: WorkflowRunStatus;
+	conclusion: string | null; // success, failure, cancelled, ... once completed
+	htmlUrl: string;
+	headSha: string;
+	createdAt: string; // ISO 8601
+}
+
+export interface PagesSite {
+	url: string | null;
+	buildType: 'legacy' | 'workflow' | null; // legacy: served from a branch, deployed by "pages-build-deployment"
+}
+
+// The run GitHub starts to deploy a site that is served from a branch
+export const PAGES_DEPLOYMENT_RUN_NAME = 'pages-build-deployment';
+
+function toWorkflowRun(run: any): WorkflowRun {
+	return {
+		id: run.id,
+		name: run.name || run.display_title || 'workflow',
+		status: run.status,
+		conclusion: run.conclusion ?? null,
+		htmlUrl: run.html_url,
+		headSha: run.head_sha,
+		createdAt: run.created_at,
+	};
+}
+
+// REST API root for a remote host: api.github.com for github.com, /api/v3 on GitHub Enterprise Server
+export function getGitHubApiBaseUrl(host: string): string {
+	return host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+}
+
+// The few GitHub REST endpoints the plugin uses
+export class GitHubClient {
+	transport: GitHubTransport;
+	baseUrl: string;
+	token: string | null;
+
+	constructor(baseUrl: string, token: string | null, transport: GitHubTransport = new RequestUrlTransport()) {
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+		this.token = token;
+		this.transport = transport;
+	}
+
+	async get(apiPath: string): Promise<any> {
+		const headers: Record<string, string> = {
+			Accept: 'application/vnd.github+json',
+			'X-GitHub-Api-Version': '2022-11-28',
+		};
+		if (this.token) {
+			headers.Authorization = `Bearer ${this.token}`;
+		}
+		const response = await this.transport.request({ method: 'GET', url: `${this.baseUrl}${apiPath}`, headers });
+		if (response.status < 200 || response.status >= 300) {
+			const detail = response.json?.message ? `: ${response.json.message}` : '';
+			throw new GitHubApiError(`GitHub API ${apiPath} returned ${response.status}${detail}`, response.status);
+		}
+		return response.json;
+	}
+
+	// Workflow runs triggered by a commit, newest first
+	async getWorkflowRunsForCommit(owner: string, repo: string, sha: string): Promise<WorkflowRun[]> {
+		const data = await this.get(`/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/actions/runs?head_sha=${encodeURIComponent(sha)}&per_page=20`);
+		const runs: any[] = Array.isArray(data?.workflow_runs) ? data.workflow_runs : [];
+		return runs.map(toWorkflowRun);
+	}
+
+	// "pages-build-deployment" runs started at or after `since`, newest first. They run on the commit of the
+	// published branch (gh-pages), not on the commit that was pushed.
+	async getPagesDeploymentRuns(owner: string, repo: string, since: string): Promise<WorkflowRun[]> {
+		const data = await this.get(`/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/actions/runs?created=${encodeURIComponent(`>=${since}`)}&per_page=20`);
+		const runs: any[] = Array.isArray(data?.workflow_runs) ? data.workflow_runs : [];
+		return runs.filter(run => run.name === PAGES_DEPLOYMENT_RUN_NAME).map(toWorkflowRun);
+	}
+
+	// The repository's GitHub Pages site (public address and how it is deployed), or null when Pages is not enabled
+	async getPagesSite(owner: string, repo: string): Promise<PagesSite | null> {
+		try {
+			const data = await this.get(`/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pages`);
+			const buildType = data?.build_type === 'legacy' || data?.build_type === 'workflow' ? data.build_type : null;
+			return { url: data?.html_url || null, buildType };
+		} catch (error) {
+			if (error instanceof GitHubApiError && error.status === 404) {
+				return null;
+			}
+			throw error;
+		}
+	}
+}
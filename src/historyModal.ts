@@ -0,0 +1,184 @@
+import { App, Modal } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { ChangedFile, GitLogEntry } from './git';
+import { STATUS_LABELS, renderDiff } from './pushReviewModal';
+
+const PAGE_SIZE = 50;
+
+// Commits of the site repository, newest first. For each commit the changed files and the diff
+// can be inspected, a single file restored, or the whole commit reverted and pushed.
+export class HistoryModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	absoluteLocalPath: string;
+	entries: GitLogEntry[] = [];
+	selected: GitLogEntry | null = null;
+	listEl: HTMLDivElement;
+	detailEl: HTMLDivElement;
+	feedbackEl: HTMLDivElement;
+	loadMoreButton: HTMLButtonElement;
+
+	constructor(app: App, plugin: KremsObsidianPlugin, absoluteLocalPath: string) {
+		super(app);
+		this.plugin = plugin;
+		this.absoluteLocalPath = absoluteLocalPath;
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.modalEl.addClass('krems-history-modal');
+		contentEl.createEl('h2', { text: 'Publish History' });
+		contentEl.createEl('p', { text: 'Pick a commit to see what it changed. Restore a single file to that version, or revert the whole commit and push the revert to take it off the site.' });
+
+		const body = contentEl.createDiv({ cls: 'krems-review-body' });
+		const listColumn = body.createDiv({ cls: 'krems-review-list' });
+		this.listEl = listColumn.createDiv();
+		this.loadMoreButton = listColumn.createEl('button', { text: 'Load older commits', cls: 'krems-history-more' });
+		this.loadMoreButton.addEventListener('click', () => this.loadEntries());
+		this.detailEl = body.createDiv({ cls: 'krems-history-detail' });
+		this.detailEl.createEl('p', { text: 'Select a commit.', cls: 'krems-history-hint' });
+		this.feedbackEl = contentEl.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap;' } }) as HTMLDivElement;
+
+		await this.loadEntries();
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+
+	setFeedback(message: string, type: 'status' | 'success' | 'error') {
+		this.feedbackEl.textContent = message;
+		this.feedbackEl.className = `krems-feedback krems-feedback-${type}`;
+	}
+
+	// Appends the next page of commits to the list
+	async loadEntries() {
+		let page: GitLogEntry[];
+		try {
+			page = await this.plugin.git.log(this.absoluteLocalPath, { maxCount: PAGE_SIZE, skip: this.entries.length });
+		} catch (error: any) {
+			this.setFeedback(`Could not read the history: ${error.stderr || error.message}`, 'error');
+			this.loadMoreButton.hide();
+			return;
+		}
+		this.entries = this.entries.concat(page);
+		this.renderList();
+		this.loadMoreButton.toggle(page.length === PAGE_SIZE);
+	}
+
+	async reload() {
+		this.entries = [];
+		this.selected = null;
+		await this.loadEntries();
+		if (this.entries.length > 0) {
+			await this.selectEntry(this.entries[0]);
+		}
+	}
+
+	renderList() {
+		this.listEl.empty();
+		if (this.entries.length === 0) {
+			this.listEl.createEl('p', { text: 'No commits yet.', cls: 'krems-history-hint' });
+			return;
+		}
+		// On a linear history the newest `ahead` commits are the ones not pushed yet
+		const unpushed = this.plugin.actions.repoStatus?.ahead || 0;
+		this.entries.forEach((entry, index) => {
+			const row = this.listEl.createDiv({ cls: 'krems-history-row' });
+			if (this.selected?.hash === entry.hash) row.addClass('is-active');
+			row.createDiv({ cls: 'krems-history-subject', text: entry.subject || '(no message)' });
+			const meta = row.createDiv({ cls: 'krems-history-meta', text: `${entry.shortHash} · ${entry.authorName} · ${entry.date.toLocaleString()}` });
+			if (index < unpushed) {
+				meta.createSpan({ cls: 'krems-history-unpushed', text: 'not pushed' });
+			}
+			row.addEventListener('click', async () => {
+				this.listEl.querySelectorAll('.krems-history-row.is-active').forEach(el => el.removeClass('is-active'));
+				row.addClass('is-active');
+				await this.selectEntry(entry);
+			});
+		});
+	}
+
+	async selectEntry(entry: GitLogEntry) {
+		this.selected = entry;
+		this.detailEl.empty();
+		this.detailEl.createEl('h4', { text: entry.subject || '(no message)' });
+		this.detailEl.createDiv({ cls: 'krems-history-meta', text: `${entry.hash} · ${entry.authorName} <${entry.authorEmail}> · ${entry.date.toLocaleString()}` });
+
+		const toolbar = this.detailEl.createDiv({ cls: 'krems-review-toolbar' });
+		const showAllButton = toolbar.createEl('button', { text: 'Full diff' });
+		const revertButton = toolbar.createEl('button', { text: 'Revert & Push', cls: 'mod-warning' });
+		if (entry.parents.length === 0) {
+			revertButton.disabled = true;
+			revertButton.title = 'The first commit of the repository cannot be reverted.';
+		}
+
+		const filesEl = this.detailEl.createDiv({ cls: 'krems-history-files' });
+		const diffEl = this.detailEl.createEl('pre', { cls: 'krems-diff' });
+
+		let files: ChangedFile[];
+		try {
+			files = await this.plugin.git.commitFiles(this.absoluteLocalPath, entry.hash);
+		} catch (error: any) {
+			this.setFeedback(`Could not list the files of ${entry.shortHash}: ${error.stderr || error.message}`, 'error');
+			return;
+		}
+		if (this.selected !== entry) return; // Another commit was picked meanwhile
+
+		for (const change of files) {
+			const row = filesEl.createDiv({ cls: 'krems-review-row' });
+			row.createSpan({ cls: `krems-change-badge krems-change-${change.status}`, text: STATUS_LABELS[change.status] });
+			const label = row.createSpan({ cls: 'krems-review-path', text: change.origPath ? `${change.origPath} → ${change.path}` : change.path });
+			label.addEventListener('click', async () => {
+				filesEl.querySelectorAll('.krems-review-row.is-active').forEach(el => el.removeClass('is-active'));
+				row.addClass('is-active');
+				await this.showDiff(diffEl, entry, change.origPath ? [change.origPath, change.path] : [change.path]);
+			});
+			const restoreButton = row.createEl('button', { text: 'Restore', cls: 'krems-history-restore' });
+			restoreButton.addEventListener('click', () => this.restoreFile(entry, change));
+		}
+
+		showAllButton.addEventListener('click', async () => {
+			filesEl.querySelectorAll('.krems-review-row.is-active').forEach(el => el.removeClass('is-active'));
+			await this.showDiff(diffEl, entry, []);
+		});
+		revertButton.addEventListener('click', () => this.revertCommit(entry, files.length));
+		await this.showDiff(diffEl, entry, []);
+	}
+
+	async showDiff(diffEl: HTMLElement, entry: GitLogEntry, paths: string[]) {
+		let diffText: string;
+		try {
+			diffText = await this.plugin.git.commitDiff(this.absoluteLocalPath, entry.hash, paths) || '(no textual changes)';
+		} catch (error: any) {
+			diffText = `Could not load diff: ${error.stderr || error.message}`;
+		}
+		renderDiff(diffEl, diffText);
+	}
+
+	async restoreFile(entry: GitLogEntry, change: ChangedFile) {
+		const version = change.status === 'deleted'
+			? `its version from just before ${entry.shortHash} deleted it`
+			: `its version from ${entry.shortHash} ("${entry.subject}")`;
+		if (!confirm(`Restore ${change.path} to ${version}?\n\nThis overwrites the file in your site folder, including any local edits. Nothing is published until you push.`)) {
+			return;
+		}
+		await this.plugin.actions.restoreFile(entry, change, (message, type) => this.setFeedback(message, type));
+	}
+
+	async revertCommit(entry: GitLogEntry, fileCount: number) {
+		const unpushed = this.plugin.actions.repoStatus?.ahead || 0;
+		let message = `Revert ${entry.shortHash} ("${entry.subject}") and push?\n\nA new commit undoing its changes to ${fileCount} file(s) is pushed right away, and the site is rebuilt without them.`;
+		if (unpushed > 0) {
+			message += `\n\n${unpushed} local commit(s) that are not pushed yet will be pushed too.`;
+		}
+		if (!confirm(message)) {
+			return;
+		}
+		const reverted = await this.plugin.actions.revertCommit(entry, (feedback, type) => this.setFeedback(feedback, type));
+		if (reverted) {
+			await this.reload();
+		}
+	}
+}
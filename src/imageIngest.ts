@@ -0,0 +1,146 @@
+import { Editor, MarkdownFileInfo, MarkdownView, Notice, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import type KremsObsidianPlugin from '../main';
+import { encodeUrlPath, headingSlug } from './siteUrls';
+import { IMAGE_EXTENSIONS } from './wikilinks';
+
+// Formats a canvas can re-encode; GIFs (possibly animated) and SVGs are stored as they are
+const RESIZABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const DEFAULT_MAX_IMAGE_WIDTH = 1600;
+export const DEFAULT_IMAGE_QUALITY = 85;
+export const DEFAULT_MAX_IMAGE_SIZE_KB = 500;
+
+// Vault folder for the images of a page: images/ plus the page's folder inside the site
+export function getImageFolderForPage(localMarkdownPath: string, pagePath: string): string {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const pageDir = path.posix.dirname(pagePath.substring(siteRoot.length + 1));
+	return normalizePath(pageDir === '.' ? `${siteRoot}/images` : `${siteRoot}/images/${pageDir}`);
+}
+
+// Clipboard images arrive as "image.png"; give those a timestamped name instead
+export function getImageFileName(originalName: string, extension: string, now: Date = new Date()): string {
+	const baseName = originalName.replace(/\.[^.]*$/, '');
+	if (!baseName || /^image$/i.test(baseName)) {
+		const stamp = now.toISOString().replace(/[-:T]/g, '').substring(0, 14);
+		return `pasted-image-${stamp}.${extension}`;
+	}
+	return `${headingSlug(baseName) || 'image'}.${extension}`;
+}
+
+function isImageFile(file: File): boolean {
+	const extension = file.name.split('.').pop()?.toLowerCase() || '';
+	return file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(extension);
+}
+
+// Scales an image down to `maxWidth` and re-encodes it. Returns null when that would not make it smaller.
+export async function resizeImage(data: ArrayBuffer, mimeType: string, maxWidth: number, quality: number): Promise<ArrayBuffer | null> {
+	if (!RESIZABLE_TYPES.includes(mimeType)) {
+		return null;
+	}
+	const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }));
+	const scale = Math.min(1, maxWidth / bitmap.width);
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.round(bitmap.width * scale);
+	canvas.height = Math.round(bitmap.height * scale);
+	canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+	bitmap.close();
+	const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality / 100));
+	if (!blob || blob.size >= data.byteLength) {
+		return null;
+	}
+	return blob.arrayBuffer();
+}
+
+// Stores images pasted or dropped into site pages under the site's /images folder and links them
+// with the absolute /images/... path Krems expects, instead of Obsidian's attachment folder
+export class ImageIngestor {
+	plugin: KremsObsidianPlugin;
+
+	constructor(plugin: KremsObsidianPlugin) {
+		this.plugin = plugin;
+	}
+
+	// The page being edited, when images pasted into it should be handled by the plugin
+	getSitePage(info: MarkdownView | MarkdownFileInfo): TFile | null {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		const file = info.file;
+		if (this.plugin.settings.ingestImages === false || !localMarkdownPath || !file || !file.path.startsWith(normalizePath(localMarkdownPath) + '/')) {
+			return null;
+		}
+		return file;
+	}
+
+	handlePaste(evt: ClipboardEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+		this.handleFiles(evt, evt.clipboardData?.files, editor, info);
+	}
+
+	handleDrop(evt: DragEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+		this.handleFiles(evt, evt.dataTransfer?.files, editor, info);
+	}
+
+	handleFiles(evt: Event, fileList: FileList | undefined, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+		if (evt.defaultPrevented || !fileList || fileList.length === 0) {
+			return;
+		}
+		const page = this.getSitePage(info);
+		const images = Array.from(fileList).filter(isImageFile);
+		// Mixed content (or no images) is left to Obsidian
+		if (!page || images.length === 0 || images.length !== fileList.length) {
+			return;
+		}
+		evt.preventDefault();
+		this.ingest(images, page, editor);
+	}
+
+	async ingest(images: File[], page: TFile, editor: Editor) {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		const links: string[] = [];
+		for (const image of images) {
+			try {
+				links.push(await this.saveImage(image, localMarkdownPath, page));
+			} catch (error: any) {
+				console.error('Image ingestion error:', error);
+				new Notice(`Krems: could not add ${image.name}: ${error.message || error.toString()}`);
+			}
+		}
+		if (links.length > 0) {
+			editor.replaceSelection(links.join('\n'));
+		}
+	}
+
+	// Writes one image into the page's images folder and returns the Markdown that embeds it
+	async saveImage(image: File, localMarkdownPath: string, page: TFile): Promise<string> {
+		const { vault } = this.plugin.app;
+		const { settings } = this.plugin;
+		const maxSize = (settings.maxImageSizeKB || DEFAULT_MAX_IMAGE_SIZE_KB) * 1024;
+		const maxWidth = settings.maxImageWidth || DEFAULT_MAX_IMAGE_WIDTH;
+		let data = await image.arrayBuffer();
+
+		if (settings.resizeImages) {
+			const resized = await resizeImage(data, image.type, maxWidth, settings.imageQuality || DEFAULT_IMAGE_QUALITY);
+			if (resized) {
+				data = resized;
+			}
+		}
+		if (data.byteLength > maxSize) {
+			new Notice(`Krems: ${image.name || 'The pasted image'} is ${Math.round(data.byteLength / 1024)} KB.${settings.resizeImages ? '' : ' Turn on "Resize Large Images" in settings to shrink images as you add them.'}`);
+		}
+
+		const folder = getImageFolderForPage(localMarkdownPath, page.path);
+		if (!vault.getAbstractFileByPath(folder)) {
+			await vault.createFolder(folder);
+		}
+		const extension = (image.name.includes('.') ? image.name.split('.').pop() : image.type.split('/')[1]?.replace('+xml', '') || 'png')?.toLowerCase() || 'png';
+		const fileName = getImageFileName(image.name, extension);
+		let imagePath = `${folder}/${fileName}`;
+		for (let suffix = 1; vault.getAbstractFileByPath(imagePath); suffix++) {
+			imagePath = `${folder}/${fileName.replace(/(\.[^.]*)$/, `-${suffix}$1`)}`;
+		}
+		await vault.createBinary(imagePath, data);
+
+		const siteRoot = normalizePath(localMarkdownPath);
+		const altText = image.name.replace(/\.[^.]*$/, '').replace(/[[\]]/g, '') || 'image';
+		return `![${altText}](/${encodeUrlPath(imagePath.substring(siteRoot.length + 1))})`;
+	}
+}
@@ -0,0 +1,276 @@
+import { requestUrl } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import type KremsObsidianPlugin from '../main';
+
+type FeedbackUpdater = (message: string, type: 'status' | 'success' | 'error') => void;
+
+// Where the plugin gets the krems binary from
+export type KremsBinarySource = 'download' | 'custom' | 'path';
+
+const KREMS_REPO = 'mreider/krems';
+
+export interface KremsBinaryStatus {
+	source: KremsBinarySource;
+	path: string | null; // Absolute path, when one could be determined
+	exists: boolean;
+	version?: string; // Release tag of a downloaded binary
+	checksum?: string; // SHA-256 of a downloaded binary
+	message: string;
+}
+
+export interface KremsUpdateCheck {
+	installed: string | null;
+	latest: string;
+	updateAvailable: boolean;
+}
+
+// Release asset for the current machine. Windows on ARM runs the amd64 build under emulation.
+export function getKremsAssetName(platform: string = process.platform, arch: string = process.arch): string | null {
+	const goArch = arch === 'arm64' ? 'arm64' : arch === 'x64' ? 'amd64' : null;
+	switch (platform) {
+		case 'win32': return 'krems-windows-amd64.exe';
+		case 'darwin': return goArch ? `krems-darwin-${goArch}` : null;
+		case 'linux': return goArch ? `krems-linux-${goArch}` : null;
+		default: return null; // Unsupported
+	}
+}
+
+// Looks for an executable named krems in the directories on PATH
+export function findKremsOnPath(): string | null {
+	const names = process.platform === 'win32' ? ['krems.exe', 'krems.cmd', 'krems.bat'] : ['krems'];
+	const directories = (process.env.PATH || '').split(path.delimiter).filter(dir => dir.length > 0);
+	for (const dir of directories) {
+		for (const name of names) {
+			const candidate = path.join(dir, name);
+			try {
+				if (fs.statSync(candidate).isFile()) {
+					return candidate;
+				}
+			} catch {
+				// Not in this directory
+			}
+		}
+	}
+	return null;
+}
+
+export function sha256(data: ArrayBuffer): string {
+	return createHash('sha256').update(Buffer.from(data)).digest('hex');
+}
+
+// Finds the checksum for `assetName` in a sha256sum-style file ("<hex>  <name>" per line) or a bare hash
+export function parseChecksumFile(text: string, assetName: string): string | null {
+	const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+	for (const line of lines) {
+		const match = /^([a-fA-F0-9]{64})(?:\s+\*?(.+))?$/.exec(line);
+		if (match && (!match[2] || match[2].trim() === assetName)) {
+			return match[1].toLowerCase();
+		}
+	}
+	return null;
+}
+
+// Resolves, downloads and verifies the krems binary used for previews and builds
+export class KremsBinaryManager {
+	plugin: KremsObsidianPlugin;
+
+	constructor(plugin: KremsObsidianPlugin) {
+		this.plugin = plugin;
+	}
+
+	getVaultBasePath(): string {
+		// @ts-ignore
+		return this.plugin.app.vault.adapter.getBasePath();
+	}
+
+	// Vault-relative directory for downloaded binaries
+	getDownloadDir(): string {
+		// @ts-ignore App.vault.configDir is available in desktop
+		return path.join(this.plugin.app.vault.configDir, "plugins", this.plugin.manifest.id, "bin");
+	}
+
+	getSource(): KremsBinarySource {
+		return this.plugin.settings.kremsBinarySource || 'download';
+	}
+
+	// Absolute path of the binary for the configured source, without downloading anything
+	resolveBinaryPath(): string | null {
+		const { settings } = this.plugin;
+		switch (this.getSource()) {
+			case 'custom':
+				return settings.kremsCustomBinaryPath ? settings.kremsCustomBinaryPath : null;
+			case 'path':
+				return findKremsOnPath();
+			default: {
+				const assetName = getKremsAssetName();
+				return assetName ? path.join(this.getVaultBasePath(), this.getDownloadDir(), assetName) : null;
+			}
+		}
+	}
+
+	async getStatus(): Promise<KremsBinaryStatus> {
+		const source = this.getSource();
+		const binaryPath = this.resolveBinaryPath();
+		const exists = !!binaryPath && fs.existsSync(binaryPath);
+		const { installedKremsVersion, installedKremsChecksum } = this.plugin.settings;
+
+		if (source === 'custom') {
+			const message = !binaryPath ? 'No binary path set.' : exists ? `Using ${binaryPath}.` : `${binaryPath} does not exist.`;
+			return { source, path: binaryPath, exists, message };
+		}
+		if (source === 'path') {
+			const message = binaryPath ? `Using ${binaryPath} from PATH.` : 'No krems executable found on PATH.';
+			return { source, path: binaryPath, exists, message };
+		}
+		if (!binaryPath) {
+			return { source, path: null, exists: false, message: `No Krems build is available for ${process.platform}/${process.arch}.` };
+		}
+		if (!exists) {
+			return { source, path: binaryPath, exists, message: 'Not downloaded yet. It is downloaded the first time you preview.' };
+		}
+		const version = installedKremsVersion || 'unknown version';
+		return { source, path: binaryPath, exists, version: installedKremsVersion, checksum: installedKremsChecksum, message: `Krems ${version} is installed.` };
+	}
+
+	// Tag of the newest Krems release
+	async fetchLatestVersion(): Promise<string> {
+		const response = await requestUrl({ url: `https://api.github.com/repos/${KREMS_REPO}/releases/latest`, headers: { Accept: 'application/vnd.github+json' } });
+		const tag = response.json?.tag_name;
+		if (!tag) {
+			throw new Error('GitHub did not report a latest Krems release.');
+		}
+		return tag;
+	}
+
+	async checkForUpdate(): Promise<KremsUpdateCheck> {
+		const latest = await this.fetchLatestVersion();
+		const installed = this.plugin.settings.installedKremsVersion || null;
+		return { installed, latest, updateAvailable: installed !== latest };
+	}
+
+	// Checksum published with the release, if the release has one
+	async fetchPublishedChecksum(version: string, assetName: string): Promise<string | null> {
+		const baseUrl = `https://github.com/${KREMS_REPO}/releases/download/${version}`;
+		for (const fileName of [`${assetName}.sha256`, 'checksums.txt', 'SHA256SUMS']) {
+			try {
+				const response = await requestUrl({ url: `${baseUrl}/${fileName}`, throw: false });
+				if (response.status === 200) {
+					const checksum = parseChecksumFile(response.text, assetName);
+					if (checksum) return checksum;
+				}
+			} catch (error: any) {
+				console.warn(`Could not fetch ${fileName} for Krems ${version}:`, error.message || error);
+			}
+		}
+		return null;
+	}
+
+	// Downloads the pinned (or latest) release for this machine and verifies its SHA-256 checksum.
+	// Returns the absolute binary path, or null after reporting the problem.
+	async download(feedbackUpdater: FeedbackUpdater): Promise<string | null> {
+		const assetName = getKremsAssetName();
+		if (!assetName) {
+			feedbackUpdater(`Unsupported system for Krems download (${process.platform}/${process.arch}).`, 'error');
+			return null;
+		}
+		const { settings } = this.plugin;
+		// @ts-ignore
+		const adapter = this.plugin.app.vault.adapter;
+		const binaryDir = this.getDownloadDir();
+		const binaryPath = path.join(binaryDir, assetName); // Vault-relative
+		const absoluteBinaryPath = path.join(this.getVaultBasePath(), binaryPath);
+
+		try {
+			const version = settings.kremsVersion || await this.fetchLatestVersion();
+			feedbackUpdater(`Downloading Krems ${version} for ${process.platform}/${process.arch}...`, 'status');
+
+			const response = await requestUrl({ url: `https://github.com/${KREMS_REPO}/releases/download/${version}/${assetName}`, method: 'GET' });
+			if (response.status !== 200) {
+				throw new Error(`Failed to download Krems: Server responded with ${response.status}`);
+			}
+
+			const actualChecksum = sha256(response.arrayBuffer);
+			// The checksum entered in settings belongs to the pinned version; the latest release changes under it
+			const enteredChecksum = settings.kremsVersion ? (settings.kremsChecksum || '').trim().toLowerCase() : '';
+			const expectedChecksum = enteredChecksum || await this.fetchPublishedChecksum(version, assetName);
+			if (expectedChecksum && expectedChecksum !== actualChecksum) {
+				throw new Error(`Checksum mismatch for ${assetName}: expected ${expectedChecksum}, got ${actualChecksum}. The file was not installed.`);
+			}
+			if (!expectedChecksum && !confirm(`Krems ${version} has no published checksum, so the download cannot be verified.\n\nIts SHA-256 is ${actualChecksum}. Compare it with a checksum you trust, or pin the version and enter the expected checksum in the plugin settings.\n\nInstall the unverified binary anyway?`)) {
+				throw new Error(`Krems ${version} could not be verified and was not installed. Enter its SHA-256 checksum under "Expected SHA-256 Checksum" to install it.`);
+			}
+
+			if (!(await adapter.exists(binaryDir))) {
+				await adapter.mkdir(binaryDir);
+			}
+			await adapter.writeBinary(binaryPath, response.arrayBuffer);
+			if (process.platform !== 'win32') {
+				fs.chmodSync(absoluteBinaryPath, 0o755);
+			}
+
+			settings.localKremsBinaryPath = binaryPath;
+			settings.installedKremsVersion = version;
+			settings.installedKremsChecksum = actualChecksum;
+			await this.plugin.saveSettings();
+			feedbackUpdater(`Krems ${version} downloaded${expectedChecksum ? ' and verified' : ' (not verified)'}.`, 'status');
+			return absoluteBinaryPath;
+		} catch (error: any) {
+			console.error('Krems download error:', error);
+			feedbackUpdater(`Failed to download Krems: ${error.message || error.toString()}`, 'error');
+			return null;
+		}
+	}
+
+	// Absolute path of a usable binary, downloading it first when needed
+	async ensureBinary(feedbackUpdater: FeedbackUpdater): Promise<string | null> {
+		const source = this.getSource();
+		const binaryPath = this.resolveBinaryPath();
+
+		if (source !== 'download') {
+			if (!binaryPath || !fs.existsSync(binaryPath)) {
+				feedbackUpdater(source === 'custom'
+					? `Krems binary not found at "${binaryPath || ''}". Check the path in the plugin settings.`
+					: 'No krems executable found on PATH. Install Krems or choose another source in the plugin settings.', 'error');
+				return null;
+			}
+			return binaryPath;
+		}
+
+		const pinnedVersion = this.plugin.settings.kremsVersion;
+		const installedVersion = this.plugin.settings.installedKremsVersion;
+		const pinChanged = !!pinnedVersion && pinnedVersion !== installedVersion;
+		if (binaryPath && fs.existsSync(binaryPath) && !pinChanged) {
+			feedbackUpdater('Krems binary already downloaded.', 'status');
+			// Ensure it's executable (especially on mac/linux after unzipping/copying)
+			if (process.platform !== 'win32') {
+				try {
+					fs.chmodSync(binaryPath, 0o755);
+				} catch (chmodErr) {
+					console.error("Failed to chmod existing binary:", chmodErr);
+					feedbackUpdater('Found Krems binary, but failed to set executable permission. Please check manually.', 'error');
+					return null;
+				}
+			}
+			return binaryPath;
+		}
+		return this.download(feedbackUpdater);
+	}
+
+	// True when ensureBinary would have to download something
+	needsDownload(): boolean {
+		if (this.getSource() !== 'download') return false;
+		const binaryPath = this.resolveBinaryPath();
+		const { kremsVersion, installedKremsVersion } = this.plugin.settings;
+		return !binaryPath || !fs.existsSync(binaryPath) || (!!kremsVersion && kremsVersion !== installedKremsVersion);
+	}
+
+	// Asks before the first download; true when the preview (or build check) may go ahead
+	confirmDownload(purpose: 'preview' | 'build' = 'preview'): boolean {
+		if (!this.needsDownload()) return true;
+		return purpose === 'preview'
+			? confirm("To preview your site locally, this will download the Krems binary and set executable permissions. This step is for local preview and not strictly necessary for publishing to GitHub. Is it okay to proceed?")
+			: confirm("To check that your site builds, this will download the Krems binary and set executable permissions. Is it okay to proceed?");
+	}
+}
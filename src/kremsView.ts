@@ -0,0 +1,378 @@
+import { ItemView, Setting, WorkspaceLeaf, debounce } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { DEFAULT_COMMIT_MESSAGE, FeedbackUpdater } from './siteActions';
+import { STATUS_LABELS } from './pushReviewModal';
+import { getDraftPages } from './drafts';
+import { openFileAtLine } from './reportModal';
+import { TEMPLATES_FOLDER } from './pageTemplates';
+import { HistoryModal } from './historyModal';
+import { NewSiteModal } from './newSiteModal';
+import { KREMS_TAXONOMY_VIEW_TYPE } from './taxonomyView';
+import { NewBranchModal } from './branchModal';
+
+export const KREMS_VIEW_TYPE = 'krems-publisher-view';
+
+// A section's feedback line and the updater actions write to
+type SectionFeedback = { el: HTMLDivElement; update: FeedbackUpdater };
+
+// Dockable dashboard for the active site. Actions, preview server state and the last push
+// result live on the plugin, so closing and reopening the view loses nothing.
+export class KremsView extends ItemView {
+	plugin: KremsObsidianPlugin;
+	unsubscribers: (() => void)[] = [];
+	repoEl: HTMLDivElement;
+	previewStatusEl: HTMLDivElement;
+	previewLogEl: HTMLDivElement;
+	lastPushEl: HTMLDivElement;
+	deployEl: HTMLDivElement;
+	branchSelectEl: HTMLSelectElement;
+	draftsEl: HTMLDivElement;
+	draftsFeedback: FeedbackUpdater;
+	buttons: Record<string, HTMLButtonElement> = {};
+
+	constructor(leaf: WorkspaceLeaf, plugin: KremsObsidianPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return KREMS_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Krems Publisher';
+	}
+
+	getIcon(): string {
+		return 'cloud-lightning';
+	}
+
+	async onOpen() {
+		const { actions, preview } = this.plugin;
+		this.unsubscribers.push(actions.onChange(() => this.updateState()));
+		this.unsubscribers.push(this.plugin.deployments.onChange(() => this.updateState()));
+		this.unsubscribers.push(preview.onChange(event => {
+			if (event.type === 'log') {
+				this.appendPreviewLog(event.line);
+			} else {
+				this.updateState();
+			}
+		}));
+		// Front matter edits can turn a page into a draft or publish it
+		const refreshDrafts = debounce(() => this.updateDrafts(), 1000, true);
+		this.registerEvent(this.app.metadataCache.on('changed', refreshDrafts));
+		this.registerEvent(this.app.vault.on('delete', refreshDrafts));
+		this.registerEvent(this.app.vault.on('rename', refreshDrafts));
+		this.render();
+		await actions.refreshRepoStatus();
+	}
+
+	async onClose() {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+		this.unsubscribers = [];
+	}
+
+	createFeedback(parent: HTMLElement): SectionFeedback {
+		const el = parent.createDiv({ cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap;' } });
+		const update: FeedbackUpdater = (message, type) => {
+			el.textContent = message;
+			el.className = `krems-feedback krems-feedback-${type}`;
+		};
+		return { el, update };
+	}
+
+	// Rebuilds the whole view; used on open and when the active site changes
+	render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('krems-view');
+		this.buttons = {};
+		const { actions, preview } = this.plugin;
+		const profile = this.plugin.getActiveProfile();
+
+		// --- Site ---
+		const siteSection = container.createDiv({ cls: 'krems-modal-section' });
+		siteSection.createEl('h4', { text: 'Site' });
+		const { profiles } = this.plugin.settings;
+		if (profiles.length > 1) {
+			new Setting(siteSection)
+				.setName('Active site')
+				.addDropdown(dropdown => {
+					profiles.forEach(site => dropdown.addOption(site.id, site.name || '(unnamed site)'));
+					dropdown.setValue(profile.id)
+						.onChange(async (value) => {
+							await this.plugin.setActiveProfile(value);
+						});
+				});
+		} else {
+			siteSection.createEl('p', { text: profile.name || profile.localMarkdownPath || 'No site configured' });
+		}
+		this.repoEl = siteSection.createDiv({ cls: 'krems-view-repo' });
+		const refreshButton = siteSection.createEl('button', { text: 'Refresh' });
+		refreshButton.addEventListener('click', () => actions.refreshRepoStatus());
+		const taxonomyButton = siteSection.createEl('button', { text: 'Tags & Authors' });
+		taxonomyButton.addEventListener('click', () => this.plugin.activateView(KREMS_TAXONOMY_VIEW_TYPE));
+		if (!actions.isConfigured()) {
+			siteSection.createEl('p', { text: 'Please set Local Markdown Directory and GitHub Repo URL in settings.', cls: 'krems-warning' });
+		}
+
+		// --- Clone ---
+		const cloneSection = container.createDiv({ cls: 'krems-modal-section' });
+		cloneSection.createEl('h4', { text: 'Clone or Create' });
+		cloneSection.createEl('p', { text: `Clone your repo from GitHub into ${profile.localMarkdownPath || 'your local directory (not set)'}, or start a new site from scratch.` });
+		this.buttons.clone = cloneSection.createEl('button', { text: 'Clone Your Repo' });
+		this.buttons.create = cloneSection.createEl('button', { text: 'Create New Site' });
+		const cloneFeedback = this.createFeedback(cloneSection);
+		this.buttons.clone.addEventListener('click', () => actions.clone(cloneFeedback.update));
+		this.buttons.create.addEventListener('click', () => new NewSiteModal(this.app, this.plugin).open());
+
+		// --- Pull / Sync ---
+		const pullSection = container.createDiv({ cls: 'krems-modal-section' });
+		pullSection.createEl('h4', { text: 'Pull / Sync' });
+		pullSection.createEl('p', { text: `Fetch edits made on GitHub or another machine and ${actions.getPullStrategy()} them into your site folder.` });
+		this.buttons.pull = pullSection.createEl('button', { text: 'Pull / Sync' });
+		const pullFeedback = this.createFeedback(pullSection);
+		this.buttons.pull.addEventListener('click', () => actions.pull(pullFeedback.update));
+
+		// --- Branches ---
+		const branchSection = container.createDiv({ cls: 'krems-modal-section' });
+		branchSection.createEl('h4', { text: 'Branches' });
+		branchSection.createEl('p', { text: 'Work on a draft branch to keep large changes off the live site, then merge it into the publishing branch.' });
+		this.branchSelectEl = branchSection.createEl('select', { cls: 'dropdown krems-branch-select' });
+		this.buttons.newBranch = branchSection.createEl('button', { text: 'New Draft Branch' });
+		this.buttons.pushBranch = branchSection.createEl('button', { text: 'Push Branch' });
+		this.buttons.merge = branchSection.createEl('button', { text: 'Merge' });
+		const branchFeedback = this.createFeedback(branchSection);
+		this.branchSelectEl.addEventListener('change', async () => {
+			const name = this.branchSelectEl.value;
+			if (!name || name === actions.repoStatus?.branch) return;
+			if (!(await actions.switchBranch(name, branchFeedback.update))) {
+				this.updateState();
+			}
+		});
+		this.buttons.newBranch.addEventListener('click', () => {
+			new NewBranchModal(this.app, name => actions.createBranch(name, branchFeedback.update)).open();
+		});
+		this.buttons.pushBranch.addEventListener('click', () => actions.pushBranch(branchFeedback.update));
+		this.buttons.merge.addEventListener('click', () => {
+			const status = actions.repoStatus;
+			if (status?.defaultBranch && confirm(`Merge ${status.branch} into ${status.defaultBranch} and push? This publishes everything on ${status.branch}.`)) {
+				actions.mergeIntoDefault(branchFeedback.update);
+			}
+		});
+
+		// --- Preview ---
+		const previewSection = container.createDiv({ cls: 'krems-modal-section' });
+		previewSection.createEl('h4', { text: 'Local Preview' });
+		this.previewStatusEl = previewSection.createDiv({ cls: 'krems-view-preview-status' });
+		this.buttons.previewStart = previewSection.createEl('button', { text: 'Browse Locally' });
+		this.buttons.previewStop = previewSection.createEl('button', { text: 'Stop' });
+		this.buttons.previewRestart = previewSection.createEl('button', { text: 'Restart' });
+		const previewFeedback = this.createFeedback(previewSection);
+		this.previewLogEl = previewSection.createDiv({ cls: 'krems-preview-log' });
+		this.previewLogEl.textContent = preview.log.join('\n');
+		this.previewLogEl.scrollTop = this.previewLogEl.scrollHeight;
+
+		this.buttons.previewStart.addEventListener('click', async () => {
+			if (!this.plugin.kremsBinary.confirmDownload()) {
+				previewFeedback.update('Local preview cancelled by user.', 'status');
+				return;
+			}
+			this.previewLogEl.textContent = '';
+			await preview.start(previewFeedback.update);
+		});
+		this.buttons.previewStop.addEventListener('click', () => preview.stop(previewFeedback.update));
+		this.buttons.previewRestart.addEventListener('click', async () => {
+			this.previewLogEl.textContent = '';
+			await preview.restart(previewFeedback.update);
+		});
+
+		// --- Push ---
+		const pushSection = container.createDiv({ cls: 'krems-modal-section' });
+		pushSection.createEl('h4', { text: 'Push to GitHub' });
+		pushSection.createEl('p', { text: 'Review the changes in your site folder, then commit the files you select and push them.' });
+		const commitMessageInput = pushSection.createEl('input', { type: 'text', placeholder: `Optional commit message (default: ${DEFAULT_COMMIT_MESSAGE})` });
+		commitMessageInput.style.width = '100%';
+		commitMessageInput.style.marginBottom = '10px';
+		this.buttons.push = pushSection.createEl('button', { text: 'Push to GitHub', cls: 'mod-cta' });
+		this.buttons.lint = pushSection.createEl('button', { text: 'Check Front Matter' });
+		this.buttons.links = pushSection.createEl('button', { text: 'Check Links' });
+		this.buttons.build = pushSection.createEl('button', { text: 'Check Build' });
+		this.buttons.history = pushSection.createEl('button', { text: 'History' });
+		const pushFeedback = this.createFeedback(pushSection);
+		this.lastPushEl = pushSection.createDiv({ cls: 'krems-view-last-push' });
+		this.deployEl = pushSection.createDiv({ cls: 'krems-view-deploy' });
+
+		this.buttons.push.addEventListener('click', async () => {
+			if (await actions.push(commitMessageInput.value, pushFeedback.update)) {
+				commitMessageInput.value = '';
+			}
+		});
+		this.buttons.lint.addEventListener('click', () => actions.checkFrontMatter(pushFeedback.update));
+		this.buttons.links.addEventListener('click', () => actions.checkLinks(pushFeedback.update));
+		this.buttons.build.addEventListener('click', () => actions.checkBuild(pushFeedback.update));
+		this.buttons.history.addEventListener('click', () => {
+			const absoluteLocalPath = actions.getAbsoluteSitePath();
+			if (absoluteLocalPath) new HistoryModal(this.app, this.plugin, absoluteLocalPath).open();
+		});
+
+		// --- Drafts ---
+		const draftsSection = container.createDiv({ cls: 'krems-modal-section' });
+		draftsSection.createEl('h4', { text: 'Drafts' });
+		draftsSection.createEl('p', { text: 'Pages with "draft: true" or "publish: false" are left out of pushes and the local preview.' });
+		this.draftsEl = draftsSection.createDiv({ cls: 'krems-view-drafts' });
+		this.draftsFeedback = this.createFeedback(draftsSection).update;
+		this.updateDrafts();
+
+		const helpLink = container.createEl('p', { cls: 'krems-modal-footer' });
+		helpLink.setText('For help, see the ');
+		helpLink.createEl('a', {
+			text: 'plugin documentation',
+			href: 'https://github.com/mreider/krems-obsidian-plugin/',
+			attr: { target: '_blank', rel: 'noopener noreferrer' }
+		});
+		helpLink.appendText('.');
+
+		this.updateState();
+	}
+
+	updateDrafts() {
+		if (!this.draftsEl) return;
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		this.draftsEl.empty();
+		const drafts = localMarkdownPath
+			? getDraftPages(this.app, localMarkdownPath).filter(page => !page.sitePath.startsWith(TEMPLATES_FOLDER + '/'))
+			: [];
+		if (drafts.length === 0) {
+			this.draftsEl.createEl('p', { text: 'No drafts.' });
+			return;
+		}
+		for (const page of drafts) {
+			const row = this.draftsEl.createDiv({ cls: 'krems-draft-row' });
+			const link = row.createEl('a', { cls: 'krems-draft-title', text: page.title || page.sitePath, attr: { title: page.sitePath } });
+			link.addEventListener('click', () => openFileAtLine(this.app, page.file.path));
+			const publishButton = row.createEl('button', { text: 'Publish' });
+			publishButton.disabled = !this.plugin.actions.isConfigured() || this.plugin.actions.isRunning('push');
+			publishButton.addEventListener('click', async () => {
+				if (confirm(`Publish "${page.title || page.sitePath}"? This clears its draft flag and pushes only this page and its images.`)) {
+					await this.plugin.actions.publishPage(page.file, this.draftsFeedback);
+					this.updateDrafts();
+				}
+			});
+		}
+	}
+
+	updateBranches() {
+		const { actions } = this.plugin;
+		const status = actions.repoStatus;
+		const usable = !!status && !status.error && !!status.branch;
+		const busy = actions.isRunning('branch') || actions.isRunning('push');
+		this.branchSelectEl.empty();
+		for (const branch of status?.branches || []) {
+			const label = branch.name === status?.defaultBranch ? `${branch.name} (published)` : branch.upstream ? branch.name : `${branch.name} (not on GitHub)`;
+			this.branchSelectEl.createEl('option', { text: label, value: branch.name });
+		}
+		if (status?.branch === 'HEAD') {
+			this.branchSelectEl.createEl('option', { text: 'No branch (detached)', value: '' });
+			this.branchSelectEl.value = '';
+		} else if (status?.branch) {
+			this.branchSelectEl.value = status.branch;
+		}
+		this.branchSelectEl.disabled = !usable || busy || (status?.branches.length || 0) < 2;
+
+		const onDraftBranch = usable && !!status?.defaultBranch && status.branch !== status.defaultBranch;
+		this.buttons.merge.setText(status?.defaultBranch ? `Merge into ${status.defaultBranch}` : 'Merge');
+		this.buttons.merge.disabled = !actions.isConfigured() || !onDraftBranch || busy;
+		this.buttons.newBranch.disabled = !usable || busy;
+		this.buttons.pushBranch.disabled = !actions.isConfigured() || !usable || busy;
+	}
+
+	appendPreviewLog(line: string) {
+		if (!this.previewLogEl) return;
+		this.previewLogEl.textContent += (this.previewLogEl.textContent ? '\n' : '') + line;
+		this.previewLogEl.scrollTop = this.previewLogEl.scrollHeight;
+	}
+
+	// Refreshes repository details, button states and the last push result in place
+	updateState() {
+		if (!this.repoEl) return;
+		const { actions, preview } = this.plugin;
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		const configured = actions.isConfigured();
+
+		this.repoEl.empty();
+		const status = actions.repoStatus;
+		if (!status) {
+			this.repoEl.createEl('p', { text: localMarkdownPath ? 'Reading repository status...' : 'No site folder set.' });
+		} else if (status.error) {
+			this.repoEl.createEl('p', { text: status.error });
+		} else {
+			const sync = status.ahead === null ? 'no upstream branch' : `${status.ahead} ahead, ${status.behind} behind`;
+			this.repoEl.createEl('p', { text: `Branch ${status.branch} (${sync})` });
+			if (status.syncInProgress) {
+				this.repoEl.createEl('p', { cls: 'krems-warning', text: `A ${status.syncInProgress} is waiting for conflicts to be resolved. Click "Pull / Sync" to continue.` });
+			}
+			if (status.changes.length === 0) {
+				this.repoEl.createEl('p', { text: 'No uncommitted changes.' });
+			} else {
+				const details = this.repoEl.createEl('details');
+				details.createEl('summary', { text: `${status.changes.length} uncommitted change(s)` });
+				const list = details.createDiv({ cls: 'krems-view-changes' });
+				for (const change of status.changes) {
+					const row = list.createDiv({ cls: 'krems-review-row' });
+					row.createSpan({ cls: `krems-change-badge krems-change-${change.status}`, text: STATUS_LABELS[change.status] });
+					row.createSpan({ cls: 'krems-review-path', text: change.origPath ? `${change.origPath} → ${change.path}` : change.path });
+				}
+			}
+		}
+
+		this.buttons.clone.disabled = !configured || actions.isRunning('clone');
+		this.buttons.create.disabled = actions.isRunning('create') || actions.isRunning('clone');
+		this.buttons.pull.disabled = !configured || actions.isRunning('pull');
+		this.buttons.push.disabled = !configured || actions.isRunning('push');
+		this.buttons.lint.disabled = !localMarkdownPath || actions.isRunning('lint');
+		this.buttons.links.disabled = !localMarkdownPath || actions.isRunning('links');
+		this.buttons.build.disabled = !localMarkdownPath || actions.isRunning('build') || actions.isRunning('push');
+		this.buttons.history.disabled = !localMarkdownPath || !!actions.repoStatus?.error;
+		this.updateBranches();
+
+		const url = preview.getUrl();
+		const previewStates: Record<string, string> = {
+			stopped: 'Server stopped.',
+			starting: 'Server starting...',
+			running: `Server running at ${url}`,
+			rebuilding: `Rebuilding (${url})...`,
+			stopping: 'Server stopping...',
+		};
+		this.previewStatusEl.textContent = previewStates[preview.state];
+		if (preview.sitePath && preview.isRunning() && preview.sitePath !== localMarkdownPath) {
+			this.previewStatusEl.textContent += ` (serving ${preview.sitePath})`;
+		}
+		this.buttons.previewStart.disabled = !localMarkdownPath || preview.state !== 'stopped';
+		this.buttons.previewStop.disabled = !preview.isRunning();
+		this.buttons.previewRestart.disabled = preview.state !== 'running';
+
+		this.lastPushEl.empty();
+		const lastPush = actions.lastPushResult;
+		if (lastPush) {
+			this.lastPushEl.createEl('div', {
+				cls: lastPush.success ? 'krems-feedback-valid' : 'krems-feedback-invalid',
+				text: `Last push (${lastPush.time.toLocaleTimeString()}): ${lastPush.message}`,
+			});
+		}
+
+		this.deployEl.empty();
+		const deployment = this.plugin.deployments.status;
+		if (deployment) {
+			const stateEl = this.deployEl.createDiv({ cls: `krems-deploy-state krems-deploy-${deployment.state}` });
+			stateEl.createSpan({ text: `Deployment (${deployment.sha.substring(0, 7)}): ${deployment.message}` });
+			const links = this.deployEl.createDiv({ cls: 'krems-deploy-links' });
+			if (deployment.logsUrl) {
+				links.createEl('a', { text: 'View logs', href: deployment.logsUrl, attr: { target: '_blank', rel: 'noopener noreferrer' } });
+			}
+			if (deployment.siteUrl) {
+				links.createEl('a', { text: 'Open site', href: deployment.siteUrl, attr: { target: '_blank', rel: 'noopener noreferrer' } });
+			}
+		}
+	}
+}
@@ -0,0 +1,196 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import { ReportIssue } from './reportModal';
+import { getSitePages } from './siteIndex';
+import { ASSET_OVERRIDE_KEYS, getSiteConfigPath, readSiteConfig } from './siteConfig';
+import { headingSlug, pageUrlForPath } from './siteUrls';
+
+// Markdown links and images (`[text](target)`, `![alt](target "title")`) and HTML src/href attributes
+const LINK_REGEX = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|\b(?:src|href)\s*=\s*"([^"]+)"/g;
+const INLINE_CODE_REGEX = /`[^`\n]*`/g;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+interface PageLink {
+	target: string;
+	line: number; // Zero-based
+}
+
+// Links in a page body with their line numbers. Front matter, fenced code blocks and inline code are skipped.
+export function extractLinks(content: string): PageLink[] {
+	const lines = content.split('\n');
+	const links: PageLink[] = [];
+	let start = 0;
+	if (lines[0]?.trim() === '---') {
+		const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+		start = end === -1 ? 0 : end + 1;
+	}
+	let fence: string | null = null;
+	for (let i = start; i < lines.length; i++) {
+		const fenceMatch = lines[i].match(FENCE_REGEX);
+		if (fenceMatch) {
+			if (fence === null) {
+				fence = fenceMatch[1];
+			} else if (fence === fenceMatch[1]) {
+				fence = null;
+			}
+			continue;
+		}
+		if (fence !== null) continue;
+		const text = lines[i].replace(INLINE_CODE_REGEX, '');
+		const linkRegex = new RegExp(LINK_REGEX.source, 'g');
+		let match: RegExpExecArray | null;
+		while ((match = linkRegex.exec(text)) !== null) {
+			links.push({ target: match[1] || match[2], line: i });
+		}
+	}
+	return links;
+}
+
+// Where a link points inside the site: the site-relative path of the URL and its #anchor.
+// Null for external URLs, mailto: and similar links the checker does not follow.
+export function resolveLinkTarget(target: string, pageSitePath: string, basePath?: string): { urlPath: string; anchor: string } | null {
+	if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(target)) {
+		return null;
+	}
+	const hashIndex = target.indexOf('#');
+	const anchor = hashIndex === -1 ? '' : target.substring(hashIndex + 1);
+	let urlPath = (hashIndex === -1 ? target : target.substring(0, hashIndex)).split('?')[0];
+	try {
+		urlPath = decodeURI(urlPath);
+	} catch {
+		// Keep the raw path; it will be reported as missing
+	}
+	if (urlPath === '') {
+		return { urlPath: pageSitePath, anchor }; // Same page
+	}
+	if (urlPath.startsWith('/')) {
+		const base = (basePath || '').replace(/\/+$/, '');
+		if (base && (urlPath === base || urlPath.startsWith(base + '/'))) {
+			urlPath = urlPath.substring(base.length);
+		}
+		urlPath = urlPath.substring(1);
+	} else {
+		urlPath = path.posix.join(path.posix.dirname(pageSitePath), urlPath);
+	}
+	const trailingSlash = urlPath.endsWith('/');
+	urlPath = path.posix.normalize(urlPath || '.');
+	if (urlPath === '.' || urlPath === './') {
+		urlPath = '';
+	} else if (trailingSlash && !urlPath.endsWith('/')) {
+		urlPath += '/';
+	}
+	return { urlPath, anchor };
+}
+
+// Checks every published page of the site for links and images that will not resolve once Krems
+// builds it, menu entries pointing at missing pages, and images nothing refers to
+export async function checkSiteLinks(app: App, localMarkdownPath: string): Promise<ReportIssue[]> {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const pages = getSitePages(app, localMarkdownPath);
+	const draftPaths = new Set(pages.filter(page => page.isDraft).map(page => page.sitePath));
+	const config = await readSiteConfig(app, localMarkdownPath);
+	const issues: ReportIssue[] = [];
+	const referenced = new Set<string>(); // Site-relative paths of files something links to
+
+	const getSiteFile = (sitePath: string): TFile | null => {
+		const file = app.vault.getAbstractFileByPath(`${siteRoot}/${sitePath}`);
+		return file instanceof TFile ? file : null;
+	};
+
+	for (const page of pages) {
+		const image = page.frontmatter.image;
+		if (typeof image === 'string' && image.trim().startsWith('/')) {
+			const resolvedImage = resolveLinkTarget(image.trim(), page.sitePath, config.website.basePath);
+			if (resolvedImage) referenced.add(resolvedImage.urlPath);
+		}
+		// Wikilinks and embeds that are not converted yet still count as references
+		const resolvedLinks = app.metadataCache.resolvedLinks[page.file.path] || {};
+		Object.keys(resolvedLinks)
+			.filter(linkedPath => linkedPath.startsWith(siteRoot + '/'))
+			.forEach(linkedPath => referenced.add(linkedPath.substring(siteRoot.length + 1)));
+
+		const content = await app.vault.cachedRead(page.file);
+		for (const link of extractLinks(content)) {
+			const resolved = resolveLinkTarget(link.target, page.sitePath, config.website.basePath);
+			if (!resolved) continue;
+			const { urlPath, anchor } = resolved;
+			// Drafts are not published, so only their references matter (for the orphaned image check)
+			const addIssue = (severity: 'error' | 'warning', message: string) => {
+				if (!page.isDraft) issues.push({ file: page.file.path, line: link.line, severity, message });
+			};
+
+			if (urlPath.startsWith('..')) {
+				addIssue('error', `"${link.target}" points outside the site folder.`);
+				continue;
+			}
+
+			let targetPath: string;
+			if (urlPath === '' || urlPath.endsWith('/')) {
+				targetPath = `${urlPath}index.md`;
+			} else if (urlPath.endsWith('.html')) {
+				targetPath = urlPath.replace(/\.html$/, '.md');
+			} else if (urlPath.endsWith('.md')) {
+				targetPath = urlPath;
+				if (getSiteFile(urlPath)) {
+					addIssue('warning', `"${link.target}" links to the Markdown file. Krems publishes that page at "${pageUrlForPath(urlPath) || '/'}".`);
+				}
+			} else if (!path.posix.extname(urlPath)) {
+				// A folder without its trailing slash
+				targetPath = getSiteFile(`${urlPath}.md`) ? `${urlPath}.md` : `${urlPath}/index.md`;
+			} else {
+				targetPath = urlPath;
+			}
+
+			const targetFile = getSiteFile(targetPath);
+			referenced.add(targetPath);
+			if (!targetFile) {
+				addIssue('error', `"${link.target}" does not resolve to a file in the site folder (looked for ${targetPath}).`);
+				continue;
+			}
+			if (draftPaths.has(targetPath) && !page.isDraft) {
+				addIssue('warning', `"${link.target}" links to a draft, which is not published.`);
+			}
+			if (anchor && targetFile.extension === 'md') {
+				const headings = app.metadataCache.getFileCache(targetFile)?.headings || [];
+				if (!headings.some(heading => headingSlug(heading.heading) === anchor.toLowerCase())) {
+					addIssue('warning', `"${link.target}": no heading "#${anchor}" in ${targetPath}.`);
+				}
+			}
+		}
+	}
+
+	// Menu entries
+	const configPath = getSiteConfigPath(localMarkdownPath);
+	const configLines = (await app.vault.adapter.exists(configPath)) ? (await app.vault.adapter.read(configPath)).split('\n') : [];
+	for (const item of config.menu) {
+		if (!item.path) continue;
+		const menuPath = path.posix.normalize(item.path.replace(/^\/+/, ''));
+		referenced.add(menuPath);
+		const line = configLines.findIndex(configLine => configLine.includes(`path: ${item.path}`) || configLine.includes(`path: "${item.path}"`) || configLine.includes(`path: '${item.path}'`));
+		const addIssue = (severity: 'error' | 'warning', message: string) => {
+			issues.push({ file: configPath, line: line === -1 ? undefined : line, severity, message });
+		};
+		if (!getSiteFile(menuPath)) {
+			addIssue('error', `Menu item "${item.title}" points to "${item.path}", which does not exist in the site folder.`);
+		} else if (draftPaths.has(menuPath)) {
+			addIssue('warning', `Menu item "${item.title}" points to a draft, which is not published.`);
+		}
+	}
+	for (const key of ASSET_OVERRIDE_KEYS) {
+		const value = config.website[key];
+		if (value) referenced.add(path.posix.normalize(value.replace(/^\/+/, '')));
+	}
+
+	// Images nothing links to. Files inside an alternative asset folder count as used.
+	const assetDirs = ASSET_OVERRIDE_KEYS.map(key => config.website[key]).filter((value): value is string => !!value)
+		.map(value => path.posix.normalize(value.replace(/^\/+/, '')) + '/');
+	const imageFiles = app.vault.getFiles().filter(file => file.path.startsWith(`${siteRoot}/images/`));
+	for (const file of imageFiles) {
+		const sitePath = file.path.substring(siteRoot.length + 1);
+		if (!referenced.has(sitePath) && !assetDirs.some(dir => sitePath.startsWith(dir))) {
+			issues.push({ file: file.path, severity: 'warning', message: 'Orphaned image: no page, menu or config setting refers to it.' });
+		}
+	}
+
+	return issues;
+}
@@ -0,0 +1,95 @@
+import * as http from 'http';
+
+export const LIVE_RELOAD_ENDPOINT = '/__krems_live_reload';
+
+// Reconnects on its own while Krems restarts, and reloads the page when told to
+const LIVE_RELOAD_SCRIPT = `<script>(function () {
+	var source = new EventSource('${LIVE_RELOAD_ENDPOINT}');
+	source.addEventListener('reload', function () { window.location.reload(); });
+})();</script>`;
+
+export function injectLiveReloadScript(html: string): string {
+	const bodyEnd = html.lastIndexOf('</body>');
+	return bodyEnd === -1 ? html + LIVE_RELOAD_SCRIPT : html.substring(0, bodyEnd) + LIVE_RELOAD_SCRIPT + html.substring(bodyEnd);
+}
+
+// Sits on the preview port in front of the Krems server. HTML pages get a small script that
+// listens on a Server-Sent Events endpoint, so open browser tabs reload after each rebuild.
+export class LiveReloadProxy {
+	server: http.Server | null = null;
+	targetPort: number | null = null;
+	clients: http.ServerResponse[] = [];
+
+	async start(publicPort: number, targetPort: number): Promise<void> {
+		this.targetPort = targetPort;
+		const server = http.createServer((request, response) => this.handleRequest(request, response));
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(publicPort, () => {
+				server.removeListener('error', reject);
+				resolve();
+			});
+		});
+		this.server = server;
+	}
+
+	handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+		if (request.url === LIVE_RELOAD_ENDPOINT) {
+			response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+			response.write('retry: 1000\n\n');
+			this.clients.push(response);
+			request.on('close', () => {
+				this.clients = this.clients.filter(client => client !== response);
+			});
+			return;
+		}
+
+		const upstream = http.request({
+			host: '127.0.0.1',
+			port: this.targetPort || undefined,
+			path: request.url,
+			method: request.method,
+			// Ask for an uncompressed body so the script can be injected into HTML
+			headers: { ...request.headers, 'accept-encoding': 'identity' },
+		}, upstreamResponse => {
+			const contentType = String(upstreamResponse.headers['content-type'] || '');
+			if (!contentType.includes('text/html')) {
+				response.writeHead(upstreamResponse.statusCode || 502, upstreamResponse.headers);
+				upstreamResponse.pipe(response);
+				return;
+			}
+			const chunks: Buffer[] = [];
+			upstreamResponse.on('data', (chunk: Buffer) => chunks.push(chunk));
+			upstreamResponse.on('end', () => {
+				const body = injectLiveReloadScript(Buffer.concat(chunks).toString('utf8'));
+				const headers = { ...upstreamResponse.headers };
+				delete headers['content-length'];
+				response.writeHead(upstreamResponse.statusCode || 200, headers);
+				response.end(body);
+			});
+		});
+		upstream.on('error', () => {
+			if (!response.headersSent) {
+				response.writeHead(503, { 'Content-Type': 'text/html', 'Retry-After': '1' });
+			}
+			// Includes the script, so this page replaces itself with the real one once Krems is back
+			response.end(injectLiveReloadScript('<!DOCTYPE html><html><body><p>The Krems preview is rebuilding…</p></body></html>'));
+		});
+		request.pipe(upstream);
+	}
+
+	notifyReload() {
+		for (const client of this.clients) {
+			client.write('event: reload\ndata: {}\n\n');
+		}
+	}
+
+	stop() {
+		for (const client of this.clients) {
+			client.end();
+		}
+		this.clients = [];
+		this.server?.close();
+		this.server = null;
+	}
+}
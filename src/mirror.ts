@@ -0,0 +1,207 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import type { KremsSiteProfile } from './settings';
+import { encodeUrlPath } from './siteUrls';
+
+// Lives in the site folder (and its git repository), so every machine knows what was exported
+export const MIRROR_MANIFEST_FILE = '.krems-mirror.json';
+
+export interface MirrorEntry {
+	source: string; // Vault path of the note
+	target: string; // Site-relative path of the exported page
+	assets: string[]; // Site-relative paths of the attachments copied for it
+}
+
+export interface MirrorManifest {
+	entries: MirrorEntry[];
+}
+
+export interface MirrorReport {
+	exported: number; // Pages written because they are new or changed
+	unchanged: number;
+	removed: string[]; // Site-relative paths deleted because their note is no longer published
+	assetsCopied: number;
+	conflicts: string[]; // Human-readable reasons a note was not exported
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+	return folder === '' || filePath.startsWith(folder + '/');
+}
+
+// Source folders are entered as a comma- or newline-separated list of vault paths
+export function parseSourceFolders(value: string | undefined): string[] {
+	return (value || '').split(/[,\n]/).map(folder => normalizePath(folder.trim())).filter(folder => folder.length > 0 && folder !== '/');
+}
+
+async function readManifest(app: App, siteRoot: string): Promise<MirrorManifest> {
+	const manifestPath = `${siteRoot}/${MIRROR_MANIFEST_FILE}`;
+	if (!(await app.vault.adapter.exists(manifestPath))) {
+		return { entries: [] };
+	}
+	try {
+		const parsed = JSON.parse(await app.vault.adapter.read(manifestPath));
+		return { entries: Array.isArray(parsed?.entries) ? parsed.entries : [] };
+	} catch (error: any) {
+		throw new Error(`${MIRROR_MANIFEST_FILE} is not valid JSON: ${error.message || error}`);
+	}
+}
+
+async function ensureFolder(app: App, folderPath: string) {
+	if (!folderPath || folderPath === '.' || app.vault.getAbstractFileByPath(folderPath)) {
+		return;
+	}
+	await ensureFolder(app, path.posix.dirname(folderPath));
+	await app.vault.createFolder(folderPath);
+}
+
+async function writeIfChanged(app: App, vaultPath: string, data: string | ArrayBuffer): Promise<boolean> {
+	const existing = app.vault.getAbstractFileByPath(vaultPath);
+	if (existing instanceof TFile) {
+		if (typeof data === 'string') {
+			if (await app.vault.read(existing) === data) return false;
+			await app.vault.modify(existing, data);
+		} else {
+			const current = new Uint8Array(await app.vault.readBinary(existing));
+			const next = new Uint8Array(data);
+			if (current.length === next.length && current.every((byte, index) => byte === next[index])) return false;
+			await app.vault.modifyBinary(existing, data);
+		}
+		return true;
+	}
+	await ensureFolder(app, path.posix.dirname(vaultPath));
+	if (typeof data === 'string') {
+		await app.vault.create(vaultPath, data);
+	} else {
+		await app.vault.createBinary(vaultPath, data);
+	}
+	return true;
+}
+
+// Notes outside the site folder that should be published: flagged with `krems: true`, or inside one
+// of the source folders and not opted out with `krems: false`
+export function getMirrorSources(app: App, profile: KremsSiteProfile): TFile[] {
+	const siteRoot = normalizePath(profile.localMarkdownPath);
+	const sourceFolders = parseSourceFolders(profile.mirrorSourceFolders);
+	return app.vault.getMarkdownFiles().filter(file => {
+		if (isInFolder(file.path, siteRoot)) return false;
+		const flag = app.metadataCache.getFileCache(file)?.frontmatter?.krems;
+		if (flag === true || String(flag).toLowerCase() === 'true') return true;
+		if (flag === false || String(flag).toLowerCase() === 'false') return false;
+		return sourceFolders.some(folder => isInFolder(file.path, folder));
+	});
+}
+
+// Site-relative path a note is exported to. `kremsPath` in the front matter wins; notes in a source
+// folder keep their path below it; other flagged notes go straight into the export folder.
+export function getMirrorTarget(app: App, profile: KremsSiteProfile, file: TFile): string {
+	const explicitPath = app.metadataCache.getFileCache(file)?.frontmatter?.kremsPath;
+	if (typeof explicitPath === 'string' && explicitPath.trim()) {
+		const target = path.posix.normalize(explicitPath.trim().replace(/^\/+/, ''));
+		return target.endsWith('.md') ? target : `${target}.md`;
+	}
+	const exportFolder = normalizePath(profile.mirrorExportFolder || '').replace(/^\/+|\/+$/g, '');
+	const sourceFolder = parseSourceFolders(profile.mirrorSourceFolders)
+		.filter(folder => isInFolder(file.path, folder))
+		.sort((a, b) => b.length - a.length)[0];
+	const relativePath = sourceFolder ? file.path.substring(sourceFolder.length + 1) : file.name;
+	return exportFolder ? `${exportFolder}/${relativePath}` : relativePath;
+}
+
+// Copies the notes selected for publishing into the site folder, together with the attachments
+// they embed, and removes pages whose note has been unpublished, moved out or deleted since the
+// last export. Front matter is kept as it is.
+export async function exportMirroredNotes(app: App, profile: KremsSiteProfile): Promise<MirrorReport> {
+	const siteRoot = normalizePath(profile.localMarkdownPath);
+	const report: MirrorReport = { exported: 0, unchanged: 0, removed: [], assetsCopied: 0, conflicts: [] };
+	const previous = await readManifest(app, siteRoot);
+	const previousTargets = new Set(previous.entries.map(entry => entry.target));
+	const previousAssets = new Set(previous.entries.reduce((assets: string[], entry) => assets.concat(entry.assets), []));
+	const entries: MirrorEntry[] = [];
+	const claimedTargets = new Map<string, string>();
+	// Site-relative asset path -> vault path of the attachment copied there
+	const claimedAssets = new Map<string, string>();
+
+	for (const source of getMirrorSources(app, profile)) {
+		const target = getMirrorTarget(app, profile, source);
+		if (target.startsWith('..')) {
+			report.conflicts.push(`${source.path}: kremsPath "${target}" points outside the site folder`);
+			continue;
+		}
+		const claimedBy = claimedTargets.get(target);
+		if (claimedBy) {
+			report.conflicts.push(`${source.path}: ${target} is already exported from ${claimedBy}`);
+			continue;
+		}
+		// Pages written by hand in the site folder are never overwritten
+		if (!previousTargets.has(target) && app.vault.getAbstractFileByPath(`${siteRoot}/${target}`)) {
+			report.conflicts.push(`${source.path}: ${target} already exists in the site folder`);
+			continue;
+		}
+		claimedTargets.set(target, source.path);
+
+		let content = await app.vault.read(source);
+		const assets: string[] = [];
+		const assetFolder = path.posix.dirname(target) === '.' ? 'images' : `images/${path.posix.dirname(target)}`;
+		for (const embed of app.metadataCache.getFileCache(source)?.embeds || []) {
+			const attachment = app.metadataCache.getFirstLinkpathDest(embed.link.split('#')[0], source.path);
+			if (!attachment || attachment.extension === 'md') continue;
+			// Attachments with the same name from different folders, or as an image already in the site
+			// folder, get a numbered name instead of overwriting it
+			const isTaken = (candidate: string) => {
+				const claimedBy = claimedAssets.get(candidate);
+				if (claimedBy) return claimedBy !== attachment.path;
+				return !previousAssets.has(candidate) && !!app.vault.getAbstractFileByPath(`${siteRoot}/${candidate}`);
+			};
+			let assetPath = `${assetFolder}/${attachment.name}`;
+			for (let suffix = 1; isTaken(assetPath); suffix++) {
+				assetPath = `${assetFolder}/${attachment.basename}-${suffix}.${attachment.extension}`;
+			}
+			claimedAssets.set(assetPath, attachment.path);
+			if (await writeIfChanged(app, `${siteRoot}/${assetPath}`, await app.vault.readBinary(attachment))) {
+				report.assetsCopied++;
+			}
+			if (!assets.includes(assetPath)) assets.push(assetPath);
+			const altText = embed.displayText && embed.displayText !== embed.link && !/^\d+(x\d+)?$/.test(embed.displayText) ? embed.displayText : attachment.basename;
+			content = content.split(embed.original).join(`![${altText}](/${encodeUrlPath(assetPath)})`);
+		}
+
+		if (await writeIfChanged(app, `${siteRoot}/${target}`, content)) {
+			report.exported++;
+		} else {
+			report.unchanged++;
+		}
+		entries.push({ source: source.path, target, assets });
+	}
+
+	// Remove what the previous export wrote and this one did not
+	const currentFiles = new Set(entries.reduce((files: string[], entry) => files.concat(entry.target, entry.assets), []));
+	for (const stalePath of Array.from(previousTargets).concat(Array.from(previousAssets))) {
+		if (currentFiles.has(stalePath)) continue;
+		const staleFile = app.vault.getAbstractFileByPath(`${siteRoot}/${stalePath}`);
+		if (staleFile instanceof TFile) {
+			await app.vault.delete(staleFile);
+			report.removed.push(stalePath);
+		}
+	}
+
+	await app.vault.adapter.write(`${siteRoot}/${MIRROR_MANIFEST_FILE}`, JSON.stringify({ entries }, null, 2) + '\n');
+	return report;
+}
+
+export function summarizeMirrorReport(report: MirrorReport): string {
+	let summary = `Exported ${report.exported} note(s) into the site folder (${report.unchanged} unchanged)`;
+	if (report.assetsCopied > 0) {
+		summary += `, copied ${report.assetsCopied} attachment(s)`;
+	}
+	if (report.removed.length > 0) {
+		summary += `, removed ${report.removed.length} unpublished file(s)`;
+	}
+	summary += '.';
+
+	if (report.conflicts.length > 0) {
+		summary += ` ${report.conflicts.length} note(s) were not exported.`;
+		new Notice(`Krems: notes not exported\n${report.conflicts.slice(0, 10).join('\n')}`, 15000);
+		console.warn('Krems: notes not exported:', report.conflicts);
+	}
+	return summary;
+}
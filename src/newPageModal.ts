@@ -0,0 +1,205 @@
+import { App, Modal, Notice, Setting, TFolder, normalizePath } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { headingSlug } from './siteUrls';
+import { PageKind, PageTemplate, TEMPLATES_FOLDER, formatPageDate, getSiteTaxonomy, loadPageTemplates, renderPage } from './pageTemplates';
+
+// Toggleable chips for picking values used elsewhere on the site, plus an input for new ones
+function renderValuePicker(containerEl: HTMLElement, name: string, desc: string, existing: string[], selected: string[]) {
+	const setting = new Setting(containerEl).setName(name).setDesc(desc);
+	setting.settingEl.addClass('krems-value-picker');
+	const chipsEl = containerEl.createDiv({ cls: 'krems-chips' });
+
+	const addChip = (value: string) => {
+		const chip = chipsEl.createEl('button', { cls: 'krems-chip', text: value });
+		chip.toggleClass('is-selected', selected.includes(value));
+		chip.addEventListener('click', () => {
+			const index = selected.indexOf(value);
+			if (index === -1) {
+				selected.push(value);
+			} else {
+				selected.splice(index, 1);
+			}
+			chip.toggleClass('is-selected', index === -1);
+		});
+	};
+	existing.forEach(addChip);
+	if (existing.length === 0) {
+		chipsEl.createSpan({ cls: 'krems-chips-empty', text: 'None used on this site yet.' });
+	}
+
+	setting.addText(text => {
+		text.setPlaceholder('Add new…');
+		text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+			const value = text.getValue().trim();
+			if (event.key !== 'Enter' || !value) return;
+			event.preventDefault();
+			if (!existing.includes(value)) {
+				existing.push(value);
+				chipsEl.querySelector('.krems-chips-empty')?.remove();
+				addChip(value);
+			}
+			if (!selected.includes(value)) {
+				selected.push(value);
+				chipsEl.querySelectorAll('.krems-chip').forEach(chip => chip.toggleClass('is-selected', selected.includes(chip.textContent || '')));
+			}
+			text.setValue('');
+		});
+	});
+}
+
+// Asks for a title, folder and front matter, then creates a Krems page from a template and opens it
+export class NewPageModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	localMarkdownPath: string;
+	kind: PageKind;
+	feedbackEl: HTMLDivElement;
+
+	constructor(app: App, plugin: KremsObsidianPlugin, localMarkdownPath: string, kind: PageKind) {
+		super(app);
+		this.plugin = plugin;
+		this.localMarkdownPath = normalizePath(localMarkdownPath);
+		this.kind = kind;
+	}
+
+	// The site folder and its subfolders, except hidden ones, images and templates
+	getFolders(): string[] {
+		const root = this.app.vault.getAbstractFileByPath(this.localMarkdownPath);
+		const folders: string[] = [];
+		const visit = (folder: TFolder, relativePath: string) => {
+			folders.push(relativePath);
+			for (const child of folder.children) {
+				if (child instanceof TFolder && !child.name.startsWith('.') && !(relativePath === '' && (child.name === 'images' || child.name === TEMPLATES_FOLDER))) {
+					visit(child, relativePath ? `${relativePath}/${child.name}` : child.name);
+				}
+			}
+		};
+		if (root instanceof TFolder) {
+			visit(root, '');
+		}
+		return folders.sort();
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.modalEl.addClass('krems-new-page-modal');
+		contentEl.createEl('h2', { text: this.kind === 'list' ? 'New Krems list page' : 'New Krems page' });
+
+		const templates = (await loadPageTemplates(this.app, this.localMarkdownPath)).filter(template => template.kind === this.kind);
+		const { tags, authors } = getSiteTaxonomy(this.app, this.localMarkdownPath);
+		const activeFile = this.app.workspace.getActiveFile();
+		const activeFolder = activeFile?.parent?.path.startsWith(this.localMarkdownPath + '/') ? activeFile.parent.path.substring(this.localMarkdownPath.length + 1) : '';
+
+		let template: PageTemplate = templates[0];
+		let title = '';
+		let folder = activeFolder;
+		let date = formatPageDate();
+		let author = this.plugin.getActiveProfile().gitAuthorName || '';
+		let draft = false;
+		const selectedTags: string[] = [];
+		const selectedTagFilter: string[] = [];
+		const selectedAuthorFilter: string[] = [];
+
+		new Setting(contentEl)
+			.setName('Title')
+			.addText(text => {
+				text.onChange(value => { title = value; });
+				text.inputEl.style.width = '100%';
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc(this.kind === 'list' ? 'The list shows the dated pages of this folder.' : 'Folder of the site the page is created in.')
+			.addDropdown(dropdown => {
+				this.getFolders().forEach(sitePath => dropdown.addOption(sitePath, sitePath || '(site root)'));
+				dropdown.setValue(folder).onChange(value => { folder = value; });
+			});
+
+		if (templates.length > 1) {
+			new Setting(contentEl)
+				.setName('Template')
+				.setDesc(`Add your own templates as Markdown files in ${TEMPLATES_FOLDER}/ in the site folder.`)
+				.addDropdown(dropdown => {
+					templates.forEach((option, index) => dropdown.addOption(String(index), option.name));
+					dropdown.setValue('0').onChange(value => { template = templates[parseInt(value, 10)]; });
+				});
+		}
+
+		if (this.kind === 'list') {
+			renderValuePicker(contentEl, 'Tag filter', 'Show dated pages with any of these tags (this folder and below). Leave empty to list the dated pages of this folder.', tags, selectedTagFilter);
+			renderValuePicker(contentEl, 'Author filter', 'Show dated pages by any of these authors.', authors, selectedAuthorFilter);
+		} else {
+			new Setting(contentEl)
+				.setName('Date')
+				.setDesc('YYYY-MM-DD. Clear it for a page that should not appear on list pages.')
+				.addText(text => text.setValue(date).onChange(value => { date = value.trim(); }));
+			new Setting(contentEl)
+				.setName('Author')
+				.addText(text => text.setValue(author).onChange(value => { author = value.trim(); }));
+			renderValuePicker(contentEl, 'Tags', 'Pick tags already used on the site or add new ones.', tags, selectedTags);
+		}
+
+		new Setting(contentEl)
+			.setName('Start as draft')
+			.setDesc('Adds "draft: true" so the page stays out of pushes until you publish it.')
+			.addToggle(toggle => toggle.setValue(draft).onChange(value => { draft = value; }));
+
+		this.feedbackEl = contentEl.createDiv({ cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap;' } });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Create')
+				.setCta()
+				.onClick(async () => {
+					if (!title.trim()) {
+						this.setFeedback('Enter a title.');
+						return;
+					}
+					const content = renderPage(template, {
+						kind: this.kind,
+						title: title.trim(),
+						date,
+						author,
+						tags: selectedTags,
+						tagFilter: selectedTagFilter,
+						authorFilter: selectedAuthorFilter,
+						draft,
+					});
+					await this.createPage(folder, title.trim(), content);
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	setFeedback(message: string) {
+		this.feedbackEl.textContent = message;
+		this.feedbackEl.className = 'krems-feedback krems-feedback-error';
+	}
+
+	// List pages become the folder's index.md when it has none; other pages are named after their title
+	async createPage(folder: string, title: string, content: string) {
+		const folderPath = folder ? `${this.localMarkdownPath}/${folder}` : this.localMarkdownPath;
+		const { vault } = this.app;
+		const baseName = this.kind === 'list' && !vault.getAbstractFileByPath(`${folderPath}/index.md`) ? 'index' : (headingSlug(title) || 'page');
+		let filePath = `${folderPath}/${baseName}.md`;
+		for (let suffix = 1; vault.getAbstractFileByPath(filePath); suffix++) {
+			filePath = `${folderPath}/${baseName}-${suffix}.md`;
+		}
+		try {
+			const file = await vault.create(filePath, content);
+			this.close();
+			await this.app.workspace.getLeaf(false).openFile(file);
+			new Notice(`Krems: created ${filePath}.`);
+		} catch (error: any) {
+			console.error('New page error:', error);
+			this.setFeedback(`Could not create ${filePath}: ${error.message || error.toString()}`);
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,139 @@
+import { App, Modal, Setting, TextComponent } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { SiteScaffoldOptions, getDefaultBasePath, getDefaultSiteUrl, getGitHubRepoUrl } from './siteScaffold';
+
+// Form for "Create New Site": where the site goes, what it is called and which GitHub repository it will live in
+export class NewSiteModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	folder: string;
+	options: SiteScaffoldOptions;
+	urlEdited = false;
+	basePathEdited = false;
+	feedbackEl: HTMLDivElement;
+
+	constructor(app: App, plugin: KremsObsidianPlugin) {
+		super(app);
+		this.plugin = plugin;
+		const profile = plugin.getActiveProfile();
+		this.folder = profile.localMarkdownPath || '';
+		this.options = { siteName: '', owner: '', repo: '', url: '', basePath: '', author: profile.gitAuthorName || '' };
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Create New Site' });
+		contentEl.createEl('p', { text: 'Starts a Krems site from scratch instead of forking krems-example: config.yaml, a home page, a sample page, an images folder and the GitHub Actions workflow that publishes the site. The folder becomes the active site and gets a first commit.' });
+
+		let urlText: TextComponent;
+		let basePathText: TextComponent;
+		const updateDerived = () => {
+			if (!this.urlEdited) {
+				this.options.url = getDefaultSiteUrl(this.options.owner, this.options.repo);
+				urlText.setValue(this.options.url);
+			}
+			if (!this.basePathEdited) {
+				this.options.basePath = getDefaultBasePath(this.options.owner, this.options.repo);
+				basePathText.setValue(this.options.basePath);
+			}
+		};
+
+		new Setting(contentEl)
+			.setName('Site folder')
+			.setDesc('New or empty vault folder for the site.')
+			.addText(text => text
+				.setPlaceholder('my-site')
+				.setValue(this.folder)
+				.onChange(value => { this.folder = value.trim(); }));
+		new Setting(contentEl)
+			.setName('Site name')
+			.setDesc('Shown in the header and page titles.')
+			.addText(text => text
+				.setPlaceholder('My Krems Site')
+				.onChange(value => { this.options.siteName = value; }));
+		new Setting(contentEl)
+			.setName('GitHub owner')
+			.setDesc('Your GitHub username, or the organization the repository will belong to.')
+			.addText(text => text
+				.setPlaceholder('username')
+				.onChange(value => {
+					this.options.owner = value.trim();
+					updateDerived();
+				}));
+		new Setting(contentEl)
+			.setName('Repository name')
+			.setDesc('Name of the new, empty GitHub repository. Use <owner>.github.io to publish at the root of your GitHub Pages domain.')
+			.addText(text => text
+				.setPlaceholder('my-site')
+				.onChange(value => {
+					this.options.repo = value.trim();
+					updateDerived();
+				}));
+		new Setting(contentEl)
+			.setName('Site URL')
+			.setDesc('Where GitHub Pages will serve the site. Filled in from the owner and repository.')
+			.addText(text => {
+				urlText = text;
+				text.setPlaceholder('https://username.github.io/my-site')
+					.onChange(value => {
+						this.options.url = value.trim();
+						this.urlEdited = true;
+					});
+			});
+		new Setting(contentEl)
+			.setName('Base path')
+			.setDesc('The subdirectory the site is served from; empty for <owner>.github.io repositories.')
+			.addText(text => {
+				basePathText = text;
+				text.setPlaceholder('/my-site')
+					.onChange(value => {
+						this.options.basePath = value.trim();
+						this.basePathEdited = true;
+					});
+			});
+		new Setting(contentEl)
+			.setName('Author')
+			.setDesc('Author of the sample page (optional).')
+			.addText(text => text
+				.setValue(this.options.author || '')
+				.onChange(value => { this.options.author = value.trim(); }));
+
+		this.feedbackEl = contentEl.createEl('div', { cls: 'krems-feedback', attr: { style: 'margin-top: 10px; white-space: pre-wrap;' } }) as HTMLDivElement;
+
+		const buttonRow = contentEl.createDiv({ cls: 'krems-modal-section' });
+		const createButton = buttonRow.createEl('button', { text: 'Create Site', cls: 'mod-cta' });
+		const cancelButton = buttonRow.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		createButton.addEventListener('click', async () => {
+			if (!this.confirmReplaceProfile()) return;
+			createButton.disabled = true;
+			const created = await this.plugin.actions.createSite(this.folder, this.options, (message, type) => this.setFeedback(message, type));
+			if (created) {
+				createButton.hide();
+				cancelButton.setText('Close');
+			} else {
+				createButton.disabled = false;
+			}
+		});
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+
+	setFeedback(message: string, type: 'status' | 'success' | 'error') {
+		this.feedbackEl.textContent = message;
+		this.feedbackEl.className = `krems-feedback krems-feedback-${type}`;
+	}
+
+	// The new site takes over the active profile, so make sure nothing configured there is dropped silently
+	confirmReplaceProfile(): boolean {
+		const profile = this.plugin.getActiveProfile();
+		const repoUrl = getGitHubRepoUrl(this.options.owner, this.options.repo);
+		if (!profile.githubRepoUrl || profile.githubRepoUrl === repoUrl) {
+			return true;
+		}
+		return confirm(`The site "${profile.name}" is set up for ${profile.githubRepoUrl}. Creating this site points it at ${repoUrl} and ${this.folder} instead.\n\nTo keep both, cancel, click "Add site" in the plugin settings and create the new site there.`);
+	}
+}
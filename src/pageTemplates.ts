@@ -0,0 +1,115 @@
+import { App, TFile, TFolder, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+import { getSitePages } from './siteIndex';
+
+// Site-relative folder holding user-defined page templates
+export const TEMPLATES_FOLDER = '_templates';
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+export type PageKind = 'default' | 'list';
+
+export interface PageTemplate {
+	name: string;
+	kind: PageKind;
+	frontmatter: Record<string, unknown>;
+	body: string;
+	file?: TFile; // Unset for the built-in templates
+}
+
+export interface NewPageOptions {
+	kind: PageKind;
+	title: string;
+	date?: string; // YYYY-MM-DD
+	author?: string;
+	tags: string[];
+	tagFilter: string[];
+	authorFilter: string[];
+	draft: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: PageTemplate[] = [
+	{ name: 'Default page', kind: 'default', frontmatter: {}, body: '' },
+	{ name: 'List page', kind: 'list', frontmatter: {}, body: '' },
+];
+
+export function getBuiltInTemplate(kind: PageKind): PageTemplate {
+	return BUILT_IN_TEMPLATES.filter(template => template.kind === kind)[0];
+}
+
+// Today's date in the YYYY-MM-DD form Krems expects
+export function formatPageDate(date: Date = new Date()): string {
+	const twoDigits = (value: number) => ('0' + value).slice(-2);
+	return `${date.getFullYear()}-${twoDigits(date.getMonth() + 1)}-${twoDigits(date.getDate())}`;
+}
+
+export function splitFrontMatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
+	const match = content.match(FRONT_MATTER_REGEX);
+	if (!match) {
+		return { frontmatter: {}, body: content };
+	}
+	const parsed = parseYaml(match[1]);
+	return {
+		frontmatter: parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {},
+		body: content.substring(match[0].length),
+	};
+}
+
+// The built-in templates followed by the Markdown files in the site's _templates folder.
+// A template with `type: list` in its front matter is offered for list pages.
+export async function loadPageTemplates(app: App, localMarkdownPath: string): Promise<PageTemplate[]> {
+	const templates = BUILT_IN_TEMPLATES.slice();
+	const folder = app.vault.getAbstractFileByPath(normalizePath(`${localMarkdownPath}/${TEMPLATES_FOLDER}`));
+	if (!(folder instanceof TFolder)) {
+		return templates;
+	}
+	const files = folder.children
+		.filter((child): child is TFile => child instanceof TFile && child.extension === 'md')
+		.sort((a, b) => a.basename.localeCompare(b.basename));
+	for (const file of files) {
+		const { frontmatter, body } = splitFrontMatter(await app.vault.read(file));
+		templates.push({ name: file.basename, kind: frontmatter.type === 'list' ? 'list' : 'default', frontmatter, body, file });
+	}
+	return templates;
+}
+
+// Tags and authors already used across the site, for the pickers
+export function getSiteTaxonomy(app: App, localMarkdownPath: string): { tags: string[]; authors: string[] } {
+	const tags = new Set<string>();
+	const authors = new Set<string>();
+	for (const page of getSitePages(app, localMarkdownPath)) {
+		if (page.sitePath.startsWith(TEMPLATES_FOLDER + '/')) continue;
+		page.tags.forEach(tag => tags.add(tag));
+		page.tagFilter.forEach(tag => tags.add(tag));
+		if (page.author) authors.add(page.author);
+		page.authorFilter.forEach(author => authors.add(author));
+	}
+	const sorted = (values: Set<string>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+	return { tags: sorted(tags), authors: sorted(authors) };
+}
+
+// Front matter from the form comes first, then whatever else the template defines.
+// `{{title}}`, `{{date}}` and `{{author}}` in the template body are filled in.
+export function renderPage(template: PageTemplate, options: NewPageOptions): string {
+	const frontmatter: Record<string, unknown> = { title: options.title };
+	if (options.kind === 'list') {
+		frontmatter.type = 'list';
+		if (options.tagFilter.length > 0) frontmatter.tagFilter = options.tagFilter;
+		if (options.authorFilter.length > 0) frontmatter.authorFilter = options.authorFilter;
+	} else {
+		if (options.date) frontmatter.date = options.date;
+		if (options.author) frontmatter.author = options.author;
+		if (options.tags.length > 0) frontmatter.tags = options.tags;
+	}
+	for (const key of Object.keys(template.frontmatter)) {
+		if (!(key in frontmatter) && key !== 'draft' && key !== 'publish') {
+			frontmatter[key] = template.frontmatter[key];
+		}
+	}
+	if (options.draft) {
+		frontmatter.draft = true;
+	}
+
+	const placeholders: Record<string, string> = { title: options.title, date: options.date || '', author: options.author || '' };
+	const body = template.body.replace(/\{\{\s*(title|date|author)\s*\}\}/g, (_match, key: string) => placeholders[key]);
+	return `---\n${stringifyYaml(frontmatter)}---\n${body}`;
+}
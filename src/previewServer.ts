@@ -0,0 +1,454 @@
+import { Notice, TFile } from 'obsidian';
+import * as path from 'path';
+import * as net from 'net';
+import * as http from 'http';
+import { spawn, ChildProcess } from 'child_process';
+import type KremsObsidianPlugin from '../main';
+import { DEFAULT_SITE_PROFILE } from './settings';
+import { LiveReloadProxy } from './liveReload';
+import { readSiteConfig } from './siteConfig';
+import { encodeUrlPath, joinUrlPath, pageUrlForPath } from './siteUrls';
+import { getDraftPaths, syncSiteCopy } from './drafts';
+import { convertWikilinksInCopy, getPagesWithWikilinks, summarizeWikilinkReport } from './wikilinks';
+
+type FeedbackUpdater = (message: string, type: 'status' | 'success' | 'error') => void;
+
+export type PreviewState = 'stopped' | 'starting' | 'running' | 'rebuilding' | 'stopping';
+
+// Emitted to listeners: a state change or a line of server output
+export type PreviewEvent = { type: 'state' } | { type: 'log'; line: string };
+
+const MAX_LOG_LINES = 500;
+const CRASH_NOTICE_LINES = 5;
+const READY_TIMEOUT_MS = 20000;
+const READY_POLL_INTERVAL_MS = 300;
+const STOP_TIMEOUT_MS = 5000;
+const REBUILD_DEBOUNCE_MS = 800;
+
+export function isPortFree(port: number): Promise<boolean> {
+	return new Promise(resolve => {
+		const server = net.createServer();
+		server.once('error', () => resolve(false));
+		server.once('listening', () => server.close(() => resolve(true)));
+		server.listen(port);
+	});
+}
+
+// Lets the OS pick a free port
+export function getEphemeralPort(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const server = net.createServer();
+		server.once('error', reject);
+		server.listen(0, () => {
+			const address = server.address();
+			const port = typeof address === 'object' && address ? address.port : 0;
+			server.close(() => resolve(port));
+		});
+	});
+}
+
+// Returns the preferred port if it is free, otherwise the next free one above it
+export async function findFreePort(preferred: number, attempts = 20): Promise<number | null> {
+	for (let port = preferred; port < preferred + attempts && port <= 65535; port++) {
+		if (await isPortFree(port)) {
+			return port;
+		}
+	}
+	return null;
+}
+
+function probeHttp(url: string): Promise<boolean> {
+	return new Promise(resolve => {
+		const request = http.get(url, response => {
+			response.resume();
+			resolve(true);
+		});
+		request.setTimeout(READY_POLL_INTERVAL_MS * 3, () => request.destroy());
+		request.on('error', () => resolve(false));
+	});
+}
+
+// Polls `url` until it answers, `isAlive` turns false, or the timeout passes
+export async function waitForHttp(url: string, isAlive: () => boolean, timeoutMs = READY_TIMEOUT_MS): Promise<boolean> {
+	const deadline = Date.now() + timeoutMs;
+	while (Date.now() < deadline && isAlive()) {
+		if (await probeHttp(url)) {
+			return true;
+		}
+		await new Promise(resolve => setTimeout(resolve, READY_POLL_INTERVAL_MS));
+	}
+	return false;
+}
+
+// Owns the `krems --run` process. Lives on the plugin, so the server and its log
+// outlast any modal; UI subscribes with onChange() and unsubscribes when it closes.
+export class PreviewServer {
+	plugin: KremsObsidianPlugin;
+	process: ChildProcess | null = null;
+	state: PreviewState = 'stopped';
+	port: number | null = null; // Port the browser uses
+	kremsPort: number | null = null; // Port Krems listens on; differs from `port` when live reload proxies it
+	sitePath: string | null = null; // Vault path of the site the server was started for
+	buildPath: string | null = null; // Absolute folder Krems runs in: the site folder, or a copy without drafts
+	binaryPath: string | null = null;
+	proxy: LiveReloadProxy | null = null;
+	rebuildTimer: number | null = null;
+	rebuildPending = false;
+	log: string[] = [];
+	stderrTail: string[] = [];
+	listeners: ((event: PreviewEvent) => void)[] = [];
+
+	constructor(plugin: KremsObsidianPlugin) {
+		this.plugin = plugin;
+	}
+
+	onChange(listener: (event: PreviewEvent) => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter(existing => existing !== listener);
+		};
+	}
+
+	emit(event: PreviewEvent) {
+		for (const listener of this.listeners) {
+			listener(event);
+		}
+	}
+
+	setState(state: PreviewState) {
+		this.state = state;
+		this.emit({ type: 'state' });
+	}
+
+	appendLog(text: string, isStderr = false) {
+		for (const line of text.split('\n').filter(line => line.trim().length > 0)) {
+			const entry = isStderr ? `[STDERR] ${line}` : line;
+			this.log.push(entry);
+			if (isStderr) this.stderrTail.push(line);
+			this.emit({ type: 'log', line: entry });
+		}
+		this.log.splice(0, Math.max(0, this.log.length - MAX_LOG_LINES));
+		this.stderrTail.splice(0, Math.max(0, this.stderrTail.length - CRASH_NOTICE_LINES));
+	}
+
+	isRunning(): boolean {
+		return this.state === 'running' || this.state === 'starting' || this.state === 'rebuilding';
+	}
+
+	getUrl(): string | null {
+		return this.port ? `http://localhost:${this.port}` : null;
+	}
+
+	// Local preview URL of a page in the served site, or null when the file is not part of it.
+	// Krems serves the preview under devPath, falling back to basePath.
+	async getPreviewUrlForFile(file: TFile): Promise<string | null> {
+		const url = this.getUrl();
+		if (!url || !this.sitePath || file.extension !== 'md' || !file.path.startsWith(this.sitePath + '/')) {
+			return null;
+		}
+		let prefix = '/';
+		try {
+			const { website } = await readSiteConfig(this.plugin.app, this.sitePath);
+			prefix = website.devPath || website.basePath || '/';
+		} catch (error: any) {
+			console.warn('Could not read config.yaml for the preview URL:', error.message || error);
+		}
+		const pageUrl = pageUrlForPath(file.path.substring(this.sitePath.length + 1));
+		return url + joinUrlPath(prefix, encodeUrlPath(pageUrl));
+	}
+
+	// Folder Krems should build from. When the site has drafts or wikilinks to convert, Krems runs in a
+	// copy of the site in the plugin folder, with the drafts left out and the wikilinks converted, so
+	// the notes themselves are never changed.
+	async prepareBuildDir(localMarkdownPath: string): Promise<string> {
+		const { app } = this.plugin;
+		// @ts-ignore
+		const vaultBasePath = app.vault.adapter.getBasePath();
+		const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
+		const draftPaths = getDraftPaths(app, localMarkdownPath);
+		const convertLinks = this.plugin.settings.convertWikilinks !== false && getPagesWithWikilinks(app, localMarkdownPath).length > 0;
+		if (draftPaths.size === 0 && !convertLinks) {
+			return absoluteLocalPath;
+		}
+		// @ts-ignore App.vault.configDir is available in desktop
+		const copyPath = path.join(vaultBasePath, app.vault.configDir, 'plugins', this.plugin.manifest.id, 'preview-site');
+		await syncSiteCopy(absoluteLocalPath, copyPath, draftPaths);
+		if (draftPaths.size > 0) {
+			this.appendLog(`Leaving ${draftPaths.size} draft page(s) out of the preview.`);
+		}
+		if (convertLinks) {
+			this.appendLog(summarizeWikilinkReport(await convertWikilinksInCopy(app, localMarkdownPath, copyPath)));
+		}
+		return copyPath;
+	}
+
+	// Prepares the active site, starts the server on a free port and opens the browser once it answers
+	async start(feedbackUpdater: FeedbackUpdater, openBrowser = true): Promise<boolean> {
+		if (this.isRunning()) {
+			feedbackUpdater(`Krems server is already running on port ${this.port}.`, 'status');
+			return true;
+		}
+		const { localMarkdownPath, localRunPort } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set.', 'error');
+			return false;
+		}
+
+		this.setState('starting');
+		try {
+			await this.plugin.prepareSiteContent(feedbackUpdater);
+		} catch (error: any) {
+			console.error('Site preparation error:', error);
+			feedbackUpdater(`Preparing the site failed: ${error.message || error.toString()}`, 'error');
+			this.setState('stopped');
+			return false;
+		}
+
+		const binaryPath = await this.plugin.kremsBinary.ensureBinary(feedbackUpdater);
+		if (!binaryPath) {
+			this.setState('stopped');
+			return false;
+		}
+
+		const preferredPort = parseInt(localRunPort || DEFAULT_SITE_PROFILE.localRunPort || '8080', 10);
+		const port = await findFreePort(preferredPort);
+		if (!port) {
+			feedbackUpdater(`Ports ${preferredPort}-${preferredPort + 19} are all in use. Choose another Local Run Port in settings.`, 'error');
+			this.setState('stopped');
+			return false;
+		}
+		if (port !== preferredPort) {
+			feedbackUpdater(`Port ${preferredPort} is in use; using port ${port} instead.`, 'status');
+		}
+
+		this.log = [];
+		this.stderrTail = [];
+		this.port = port;
+		this.sitePath = localMarkdownPath;
+		this.binaryPath = binaryPath;
+
+		try {
+			this.buildPath = await this.prepareBuildDir(localMarkdownPath);
+			this.kremsPort = port;
+			if (this.plugin.settings.liveReload !== false) {
+				this.kremsPort = await getEphemeralPort();
+				this.proxy = new LiveReloadProxy();
+				await this.proxy.start(port, this.kremsPort);
+			}
+			this.appendLog(`Starting Krems server on port ${port}...`);
+			this.spawnKrems(this.buildPath, this.kremsPort);
+		} catch (error: any) {
+			console.error('Error spawning Krems:', error);
+			feedbackUpdater(`Error starting Krems: ${error.message || error.toString()}`, 'error');
+			this.shutdownProxy();
+			this.process = null;
+			this.setState('stopped');
+			return false;
+		}
+
+		feedbackUpdater(`Waiting for Krems to build the site on port ${port}...`, 'status');
+		const url = `http://localhost:${port}`;
+		const ready = await waitForHttp(`http://localhost:${this.kremsPort}`, () => this.state === 'starting');
+		if (!ready) {
+			if (this.state === 'starting') {
+				feedbackUpdater(`Krems did not answer on ${url} within ${READY_TIMEOUT_MS / 1000} seconds. Check the server log.`, 'error');
+				await this.stop();
+			} else {
+				feedbackUpdater('Krems stopped before the preview was ready. Check the server log.', 'error');
+			}
+			return false;
+		}
+
+		this.setState('running');
+		feedbackUpdater(`Krems server running at ${url}.`, 'success');
+		if (openBrowser) {
+			window.open(url, '_blank');
+		}
+		return true;
+	}
+
+	spawnKrems(absoluteLocalPath: string, port: number) {
+		const child = spawn(
+			this.binaryPath as string,
+			['--run', '--port', String(port)],
+			{ cwd: absoluteLocalPath, shell: process.platform === 'win32' } // shell: true for windows often helps with .exe
+		);
+		this.process = child;
+		child.stdout?.on('data', (data) => this.appendLog(data.toString()));
+		child.stderr?.on('data', (data) => this.appendLog(data.toString(), true));
+		child.on('error', (err) => {
+			console.error('Failed to start Krems process:', err);
+			this.appendLog(`Failed to start Krems: ${err.message}`, true);
+			this.handleExit(child, null);
+		});
+		child.on('close', (code) => this.handleExit(child, code));
+	}
+
+	// Kills a Krems process and waits (up to a limit) for it to exit
+	killProcess(child: ChildProcess): Promise<void> {
+		return new Promise<void>(resolve => {
+			const timer = setTimeout(resolve, STOP_TIMEOUT_MS);
+			child.once('close', () => {
+				clearTimeout(timer);
+				resolve();
+			});
+			child.kill();
+		});
+	}
+
+	handleExit(child: ChildProcess, code: number | null) {
+		if (this.process !== child) {
+			return;
+		}
+		const expected = this.state === 'stopping';
+		this.process = null;
+		this.appendLog(`Krems server exited with code ${code}.`);
+		if (!expected && code !== 0) {
+			// Shown even when no Krems view is open, since the server runs in the background
+			const details = this.stderrTail.length > 0 ? `\n${this.stderrTail.join('\n')}` : '';
+			new Notice(`Krems preview server crashed (exit code ${code}).${details}`, 10000);
+		}
+		this.shutdownProxy();
+		this.setState('stopped');
+	}
+
+	// Stops the server and removes the .tmp build directory it leaves behind
+	async stop(feedbackUpdater?: FeedbackUpdater): Promise<void> {
+		const child = this.process;
+		if (child) {
+			feedbackUpdater?.('Stopping Krems server...', 'status');
+			this.setState('stopping');
+			await this.killProcess(child);
+			if (this.process === child) {
+				// The process ignored the signal; stop tracking it so a new one can start
+				this.process = null;
+			}
+		} else {
+			feedbackUpdater?.('Krems server is not running.', 'status');
+		}
+		this.shutdownProxy();
+		this.setState('stopped');
+		await this.clean(feedbackUpdater);
+	}
+
+	async restart(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		await this.stop(feedbackUpdater);
+		return this.start(feedbackUpdater, false);
+	}
+
+	// Called for every vault change; rebuilds the running preview when the change is inside its site folder
+	handleVaultChange(vaultPath: string) {
+		if (!this.proxy || !this.sitePath || (this.state !== 'running' && this.state !== 'rebuilding')) {
+			return;
+		}
+		// Hidden folders such as .tmp (Krems' build output) and .git never trigger a rebuild
+		if (!vaultPath.startsWith(this.sitePath + '/') || vaultPath.substring(this.sitePath.length).includes('/.')) {
+			return;
+		}
+		if (this.rebuildTimer !== null) {
+			window.clearTimeout(this.rebuildTimer);
+		}
+		this.rebuildTimer = window.setTimeout(() => {
+			this.rebuildTimer = null;
+			this.rebuild();
+		}, REBUILD_DEBOUNCE_MS);
+	}
+
+	// Restarts Krems behind the live reload proxy, then tells open browser tabs to reload
+	async rebuild() {
+		if (this.state === 'rebuilding') {
+			this.rebuildPending = true;
+			return;
+		}
+		const child = this.process;
+		if (this.state !== 'running' || !child || !this.sitePath || !this.kremsPort) {
+			return;
+		}
+		this.setState('rebuilding');
+		this.appendLog('Change detected, rebuilding...');
+		const logFeedback = (message: string) => this.appendLog(message);
+		try {
+			// prepareSiteContent works on the active profile, which may no longer be the previewed site
+			if (this.plugin.getActiveProfile().localMarkdownPath === this.sitePath) {
+				await this.plugin.prepareSiteContent(logFeedback);
+			}
+		} catch (error: any) {
+			this.appendLog(`Preparing the site failed: ${error.message || error.toString()}`, true);
+		}
+
+		// Detach the old process first so its exit is not reported as a crash
+		this.process = null;
+		await this.killProcess(child);
+		if ((this.state as PreviewState) !== 'rebuilding') {
+			return; // Stopped while the old process was shutting down
+		}
+		try {
+			this.buildPath = await this.prepareBuildDir(this.sitePath);
+			this.spawnKrems(this.buildPath, this.kremsPort);
+		} catch (error: any) {
+			this.appendLog(`Error restarting Krems: ${error.message || error.toString()}`, true);
+			this.shutdownProxy();
+			this.setState('stopped');
+			return;
+		}
+		const ready = await waitForHttp(`http://localhost:${this.kremsPort}`, () => this.state === 'rebuilding');
+		if ((this.state as PreviewState) !== 'rebuilding') {
+			return; // handleExit or stop() has already reported what happened
+		}
+		if (!ready) {
+			new Notice('Krems did not come back after rebuilding the preview. Check the server log.', 10000);
+			await this.stop();
+			return;
+		}
+		this.setState('running');
+		this.proxy?.notifyReload();
+		if (this.rebuildPending) {
+			this.rebuildPending = false;
+			await this.rebuild();
+		}
+	}
+
+	shutdownProxy() {
+		if (this.rebuildTimer !== null) {
+			window.clearTimeout(this.rebuildTimer);
+			this.rebuildTimer = null;
+		}
+		this.rebuildPending = false;
+		this.proxy?.stop();
+		this.proxy = null;
+	}
+
+	async clean(feedbackUpdater?: FeedbackUpdater) {
+		const binaryPath = this.binaryPath || this.plugin.kremsBinary.resolveBinaryPath();
+		// Clean the folder the server was building, even if another profile was selected since
+		const localMarkdownPath = this.sitePath || this.plugin.getActiveProfile().localMarkdownPath;
+		if (!binaryPath || !localMarkdownPath) {
+			return;
+		}
+		// @ts-ignore
+		const vaultBasePath = this.plugin.app.vault.adapter.getBasePath();
+		const absoluteLocalPath = this.buildPath || path.join(vaultBasePath, localMarkdownPath);
+
+		feedbackUpdater?.('Cleaning up .tmp directory...', 'status');
+		try {
+			await this.plugin.execShellCommand(`"${binaryPath}" --clean`, absoluteLocalPath, undefined, 'krems --clean');
+			feedbackUpdater?.('Cleanup successful.', 'status');
+		} catch (cleanError: any) {
+			console.error("Krems clean error:", cleanError);
+			feedbackUpdater?.(`Cleanup failed: ${cleanError.stderr || cleanError.message}`, 'error');
+		}
+	}
+
+	// Kills the server without waiting; used when the plugin unloads
+	dispose() {
+		if (this.process) {
+			console.log('Krems Obsidian Plugin unloading: Killing active Krems process.');
+			this.state = 'stopping';
+			this.process.kill();
+			this.process = null;
+		}
+		this.shutdownProxy();
+		this.listeners = [];
+		this.state = 'stopped';
+	}
+}
@@ -0,0 +1,148 @@
+import { App, Modal } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import type KremsObsidianPlugin from '../main';
+import { ChangeStatus, ChangedFile } from './git';
+
+export const STATUS_LABELS: Record<ChangeStatus, string> = {
+	added: 'A',
+	modified: 'M',
+	deleted: 'D',
+	renamed: 'R',
+};
+
+// Renders unified diff text line by line, colouring additions, deletions and hunk headers
+export function renderDiff(diffEl: HTMLElement, diffText: string) {
+	diffEl.empty();
+	for (const line of diffText.split('\n')) {
+		let cls = 'krems-diff-line';
+		if (line.startsWith('+') && !line.startsWith('+++')) cls += ' krems-diff-add';
+		else if (line.startsWith('-') && !line.startsWith('---')) cls += ' krems-diff-del';
+		else if (line.startsWith('@@')) cls += ' krems-diff-hunk';
+		diffEl.createDiv({ cls, text: line || ' ' });
+	}
+}
+
+export class PushReviewModal extends Modal {
+	plugin: KremsObsidianPlugin;
+	absoluteLocalPath: string;
+	changes: ChangedFile[];
+	selected: Set<string>;
+	onConfirm: (files: ChangedFile[]) => void;
+	onCancel: () => void;
+	confirmed = false;
+	diffEl: HTMLPreElement;
+	confirmButton: HTMLButtonElement;
+	checkboxes: Map<string, HTMLInputElement> = new Map();
+
+	constructor(app: App, plugin: KremsObsidianPlugin, absoluteLocalPath: string, changes: ChangedFile[], onConfirm: (files: ChangedFile[]) => void, onCancel: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.absoluteLocalPath = absoluteLocalPath;
+		this.changes = changes;
+		this.selected = new Set(changes.map(change => change.path));
+		this.onConfirm = onConfirm;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.modalEl.addClass('krems-review-modal');
+		contentEl.createEl('h2', { text: 'Review Changes Before Push' });
+
+		const counts = { added: 0, modified: 0, deleted: 0, renamed: 0 };
+		this.changes.forEach(change => counts[change.status]++);
+		contentEl.createEl('p', { text: `${counts.added} added, ${counts.modified} modified, ${counts.deleted} deleted${counts.renamed ? `, ${counts.renamed} renamed` : ''}. Only ticked files are committed; unticked files stay as local changes.` });
+
+		const toolbar = contentEl.createDiv({ cls: 'krems-review-toolbar' });
+		const selectAllButton = toolbar.createEl('button', { text: 'Select all' });
+		const selectNoneButton = toolbar.createEl('button', { text: 'Select none' });
+		selectAllButton.addEventListener('click', () => this.setAllSelected(true));
+		selectNoneButton.addEventListener('click', () => this.setAllSelected(false));
+
+		const body = contentEl.createDiv({ cls: 'krems-review-body' });
+		const listEl = body.createDiv({ cls: 'krems-review-list' });
+		this.diffEl = body.createEl('pre', { cls: 'krems-diff', text: 'Select a file to see its diff.' });
+
+		for (const change of this.changes) {
+			const row = listEl.createDiv({ cls: 'krems-review-row' });
+			const checkbox = row.createEl('input', { type: 'checkbox' });
+			checkbox.checked = true;
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(change.path);
+				} else {
+					this.selected.delete(change.path);
+				}
+				this.updateConfirmButton();
+			});
+			this.checkboxes.set(change.path, checkbox);
+
+			row.createSpan({ cls: `krems-change-badge krems-change-${change.status}`, text: STATUS_LABELS[change.status] });
+			const label = row.createSpan({ cls: 'krems-review-path', text: change.origPath ? `${change.origPath} → ${change.path}` : change.path });
+			label.addEventListener('click', async () => {
+				listEl.querySelectorAll('.krems-review-row.is-active').forEach(el => el.removeClass('is-active'));
+				row.addClass('is-active');
+				await this.showDiff(change);
+			});
+		}
+
+		const buttonRow = contentEl.createDiv({ cls: 'krems-modal-section' });
+		this.confirmButton = buttonRow.createEl('button', { cls: 'mod-cta' });
+		const cancelButton = buttonRow.createEl('button', { text: 'Cancel' });
+		this.updateConfirmButton();
+
+		this.confirmButton.addEventListener('click', () => {
+			this.confirmed = true;
+			const selectedChanges = this.changes.filter(change => this.selected.has(change.path));
+			this.close();
+			this.onConfirm(selectedChanges);
+		});
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+		if (!this.confirmed) {
+			this.onCancel();
+		}
+	}
+
+	setAllSelected(selected: boolean) {
+		this.checkboxes.forEach((checkbox, filePath) => {
+			checkbox.checked = selected;
+			if (selected) {
+				this.selected.add(filePath);
+			} else {
+				this.selected.delete(filePath);
+			}
+		});
+		this.updateConfirmButton();
+	}
+
+	updateConfirmButton() {
+		const count = this.selected.size;
+		this.confirmButton.setText(count > 0 ? `Commit & Push ${count} file(s)` : 'Push without committing');
+	}
+
+	async showDiff(change: ChangedFile) {
+		let diffText = '';
+		try {
+			if (change.status === 'added' && !(await this.plugin.git.isTracked(this.absoluteLocalPath, change.path))) {
+				// Untracked files have no diff yet, so show their whole content as added lines
+				const absoluteFilePath = path.join(this.absoluteLocalPath, change.path);
+				const content = fs.readFileSync(absoluteFilePath, 'utf8');
+				diffText = `new file: ${change.path}\n` + content.split('\n').map(line => `+${line}`).join('\n');
+			} else {
+				const paths = change.origPath ? [change.origPath, change.path] : [change.path];
+				diffText = await this.plugin.git.diff(this.absoluteLocalPath, paths) || '(no textual changes)';
+			}
+		} catch (error: any) {
+			diffText = `Could not load diff: ${error.stderr || error.message}`;
+		}
+
+		renderDiff(this.diffEl, diffText);
+	}
+}
@@ -0,0 +1,80 @@
+import { App, MarkdownView, Modal, TFile } from 'obsidian';
+
+export interface ReportIssue {
+	file: string; // Vault path
+	line?: number; // Zero-based line to jump to
+	severity: 'error' | 'warning';
+	message: string;
+}
+
+// Opens a vault file and puts the cursor on the given line
+export async function openFileAtLine(app: App, filePath: string, line?: number): Promise<boolean> {
+	const file = app.vault.getAbstractFileByPath(filePath);
+	if (!(file instanceof TFile)) {
+		return false;
+	}
+	const leaf = app.workspace.getLeaf(false);
+	await leaf.openFile(file);
+	if (line !== undefined && leaf.view instanceof MarkdownView) {
+		const editor = leaf.view.editor;
+		editor.setCursor({ line, ch: 0 });
+		editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
+	}
+	return true;
+}
+
+// Lists issues grouped by file; clicking an issue opens the file at the offending line
+export class IssueReportModal extends Modal {
+	title: string;
+	issues: ReportIssue[];
+	intro: string;
+
+	constructor(app: App, title: string, issues: ReportIssue[], intro = '') {
+		super(app);
+		this.title = title;
+		this.issues = issues;
+		this.intro = intro;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.modalEl.addClass('krems-report-modal');
+		contentEl.createEl('h2', { text: this.title });
+
+		const errorCount = this.issues.filter(issue => issue.severity === 'error').length;
+		const warningCount = this.issues.length - errorCount;
+		if (this.intro) {
+			contentEl.createEl('p', { text: this.intro });
+		}
+		contentEl.createEl('p', { text: this.issues.length === 0 ? 'No problems found.' : `${errorCount} error(s), ${warningCount} warning(s).` });
+
+		const issuesByFile = new Map<string, ReportIssue[]>();
+		for (const issue of this.issues) {
+			const fileIssues = issuesByFile.get(issue.file) || [];
+			fileIssues.push(issue);
+			issuesByFile.set(issue.file, fileIssues);
+		}
+
+		const listEl = contentEl.createDiv({ cls: 'krems-report-list' });
+		issuesByFile.forEach((fileIssues, filePath) => {
+			const fileEl = listEl.createDiv({ cls: 'krems-report-file' });
+			fileEl.createEl('div', { cls: 'krems-report-file-name', text: filePath });
+			for (const issue of fileIssues) {
+				const issueEl = fileEl.createDiv({ cls: `krems-report-issue krems-report-${issue.severity}` });
+				issueEl.createSpan({ cls: 'krems-report-severity', text: issue.severity === 'error' ? 'Error' : 'Warning' });
+				issueEl.createSpan({ text: issue.line !== undefined ? `Line ${issue.line + 1}: ${issue.message}` : issue.message });
+				issueEl.addEventListener('click', async () => {
+					if (await openFileAtLine(this.app, issue.file, issue.line)) {
+						this.close();
+					}
+				});
+			}
+		});
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,136 @@
+import type { SyncStrategy } from './git';
+import type { KremsBinarySource } from './kremsBinary';
+
+// A Krems site the plugin can clone, preview and publish
+export interface KremsSiteProfile {
+	id: string;
+	name: string;
+	githubRepoUrl: string;
+	localMarkdownPath: string;
+	localRunPort?: string; // Stored as string, validated as number
+	gitAuthorName?: string;
+	gitAuthorEmail?: string;
+	alternativeCSSDir?: string;
+	alternativeJSDir?: string;
+	alternativeFavicon?: string;
+	mirrorMode?: boolean; // Export notes from elsewhere in the vault into the site folder
+	mirrorSourceFolders?: string; // Comma-separated vault folders whose notes are exported
+	mirrorExportFolder?: string; // Site-relative folder exported notes are written to
+}
+
+// interface for settings
+export interface KremsObsidianPluginSettings {
+	profiles: KremsSiteProfile[];
+	activeProfileId: string;
+	gitPassword?: string; // Plain-text PAT from earlier versions; moved to secure storage on load, used until then
+	encryptedGitToken?: string; // PAT encrypted with the system keychain when Obsidian has no secret storage
+	localKremsBinaryPath?: string; // Path to downloaded krems binary
+	kremsBinarySource?: KremsBinarySource; // Download from GitHub, a custom path, or krems on PATH
+	kremsVersion?: string; // Release tag to download; empty for the latest release
+	kremsChecksum?: string; // Expected SHA-256 of the pinned version's download; overrides the published checksum
+	kremsCustomBinaryPath?: string; // Absolute path used when the source is 'custom'
+	installedKremsVersion?: string; // Release tag of the downloaded binary
+	installedKremsChecksum?: string; // SHA-256 of the downloaded binary
+	pullStrategy?: SyncStrategy; // How remote changes are integrated by "Pull / Sync"
+	convertWikilinks?: boolean; // Convert wikilinks/embeds to Markdown in the copy the local preview builds from
+	rewriteWikilinksBeforePush?: boolean; // Rewrite wikilinks/embeds in the notes themselves before each push; off only warns
+	lintBeforePush?: boolean; // Block pushes while the front matter check reports errors
+	checkLinksBeforePush?: boolean; // Block pushes while the link checker finds broken links
+	buildBeforePush?: boolean; // Block pushes when a trial `krems --build` of the site fails
+	trackDeployments?: boolean; // Follow the GitHub Actions run of each push
+	githubApiUrl?: string; // GitHub REST API root; empty to derive it from the repository host
+	liveReload?: boolean; // Rebuild the running preview and reload the browser when site files change
+	ingestImages?: boolean; // Store images pasted or dropped into site pages under the site's /images folder
+	resizeImages?: boolean; // Scale down and re-encode those images when they are large
+	maxImageWidth?: number; // Pixels
+	imageQuality?: number; // JPEG/WebP quality, 1-100
+	maxImageSizeKB?: number; // Larger images (including front matter `image:` targets) get a warning
+}
+
+export const DEFAULT_SITE_PROFILE: Omit<KremsSiteProfile, 'id' | 'name'> = {
+	githubRepoUrl: '',
+	localMarkdownPath: '',
+	localRunPort: '8080',
+	gitAuthorName: '',
+	gitAuthorEmail: '',
+	alternativeCSSDir: '',
+	alternativeJSDir: '',
+	alternativeFavicon: '',
+	mirrorMode: false,
+	mirrorSourceFolders: '',
+	mirrorExportFolder: '',
+};
+
+export const DEFAULT_KREMS_SETTINGS: KremsObsidianPluginSettings = {
+	profiles: [],
+	activeProfileId: '',
+	encryptedGitToken: '',
+	localKremsBinaryPath: '',
+	kremsBinarySource: 'download',
+	kremsVersion: '',
+	kremsChecksum: '',
+	kremsCustomBinaryPath: '',
+	pullStrategy: 'rebase',
+	convertWikilinks: true,
+	rewriteWikilinksBeforePush: true,
+	lintBeforePush: false,
+	checkLinksBeforePush: false,
+	buildBeforePush: false,
+	trackDeployments: true,
+	githubApiUrl: '',
+	liveReload: true,
+	ingestImages: true,
+	resizeImages: false,
+	maxImageWidth: 1600,
+	imageQuality: 85,
+	maxImageSizeKB: 500,
+};
+
+// Settings from before site profiles kept these per-site fields at the top level
+const LEGACY_PROFILE_KEYS: (keyof typeof DEFAULT_SITE_PROFILE)[] = [
+	'githubRepoUrl',
+	'localMarkdownPath',
+	'localRunPort',
+	'gitAuthorName',
+	'gitAuthorEmail',
+	'alternativeCSSDir',
+	'alternativeJSDir',
+	'alternativeFavicon',
+];
+
+export function createSiteProfile(name: string, values: Partial<KremsSiteProfile> = {}): KremsSiteProfile {
+	return {
+		...DEFAULT_SITE_PROFILE,
+		...values,
+		id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+		name,
+	};
+}
+
+// Builds current settings from saved data, moving single-site settings into the first profile
+export function migrateSettings(data: Record<string, any> | null): KremsObsidianPluginSettings {
+	const saved = data || {};
+	const settings: KremsObsidianPluginSettings = Object.assign({}, DEFAULT_KREMS_SETTINGS, saved);
+	settings.profiles = Array.isArray(saved.profiles) ? saved.profiles.map((profile: KremsSiteProfile) => ({ ...DEFAULT_SITE_PROFILE, ...profile })) : [];
+
+	const legacyValues: Partial<KremsSiteProfile> = {};
+	let hasLegacyValues = false;
+	for (const key of LEGACY_PROFILE_KEYS) {
+		if (key in settings) {
+			if (saved[key]) {
+				legacyValues[key] = saved[key];
+				hasLegacyValues = true;
+			}
+			delete (settings as unknown as Record<string, unknown>)[key];
+		}
+	}
+
+	if (settings.profiles.length === 0) {
+		const name = legacyValues.localMarkdownPath ? legacyValues.localMarkdownPath.split('/').pop() || 'My site' : 'My site';
+		settings.profiles.push(createSiteProfile(name, hasLegacyValues ? legacyValues : {}));
+	}
+	if (!settings.profiles.some(profile => profile.id === settings.activeProfileId)) {
+		settings.activeProfileId = settings.profiles[0].id;
+	}
+	return settings;
+}
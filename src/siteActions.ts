@@ -0,0 +1,903 @@
+import { TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import type KremsObsidianPlugin from '../main';
+import { BranchInfo, ChangedFile, DEFAULT_REMOTE, GitLogEntry, SyncStrategy } from './git';
+import { ConflictModal, detectSyncInProgress } from './conflictModal';
+import { PushReviewModal } from './pushReviewModal';
+import { lintFrontMatter } from './frontMatterLinter';
+import { IssueReportModal, ReportIssue } from './reportModal';
+import { checkSiteLinks } from './linkChecker';
+import { BuildCheckResult, runBuildCheck, summarizeGeneratedPages } from './buildCheck';
+import { getDraftPaths, getPageAssetPaths, markPagePublished, separateDraftChanges } from './drafts';
+import { convertWikilinksInCopy } from './wikilinks';
+import { GitProblem, classifyGitError, getGitProblem, gitErrorOutput } from './gitErrors';
+import { GitErrorModal } from './gitErrorModal';
+import { DEFAULT_BRANCH, SiteScaffoldOptions, buildScaffoldFiles, getGitHubRepoUrl, validateScaffoldOptions } from './siteScaffold';
+
+export type FeedbackUpdater = (message: string, type: 'status' | 'success' | 'error') => void;
+
+export type SiteActionName = 'clone' | 'create' | 'pull' | 'push' | 'lint' | 'links' | 'build' | 'branch';
+
+export const DEFAULT_COMMIT_MESSAGE = 'latest site version';
+
+export interface RepoStatus {
+	branch: string | null;
+	defaultBranch: string | null; // The branch GitHub Pages publishes
+	branches: BranchInfo[];
+	ahead: number | null; // Null when the branch has no upstream
+	behind: number | null;
+	changes: ChangedFile[];
+	syncInProgress: SyncStrategy | null;
+	error?: string; // Set when the folder is not a git repository yet
+}
+
+export interface ActionResult {
+	success: boolean;
+	message: string;
+	time: Date;
+}
+
+export interface PushOptions {
+	review?: boolean; // Show the review window; otherwise every change is committed (default true)
+}
+
+// The clone, pull, front matter check and push flows. Shared by the sidebar view and the
+// commands, and kept on the plugin so results survive the view being closed.
+export class SiteActions {
+	plugin: KremsObsidianPlugin;
+	running: SiteActionName[] = [];
+	lastPushResult: ActionResult | null = null;
+	repoStatus: RepoStatus | null = null;
+	listeners: (() => void)[] = [];
+
+	constructor(plugin: KremsObsidianPlugin) {
+		this.plugin = plugin;
+	}
+
+	onChange(listener: () => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter(existing => existing !== listener);
+		};
+	}
+
+	emit() {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	isRunning(action: SiteActionName): boolean {
+		return this.running.includes(action);
+	}
+
+	setRunning(action: SiteActionName, running: boolean) {
+		this.running = this.running.filter(name => name !== action);
+		if (running) this.running.push(action);
+		this.emit();
+	}
+
+	// Absolute path of the active site folder, or null when it is not configured
+	getAbsoluteSitePath(): string | null {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath) {
+			return null;
+		}
+		// @ts-ignore
+		const vaultBasePath = this.plugin.app.vault.adapter.getBasePath();
+		return path.join(vaultBasePath, localMarkdownPath);
+	}
+
+	isConfigured(): boolean {
+		const { localMarkdownPath, githubRepoUrl } = this.plugin.getActiveProfile();
+		return !!localMarkdownPath && !!githubRepoUrl;
+	}
+
+	// Re-reads branch, ahead/behind counts and uncommitted changes of the active site
+	async refreshRepoStatus(): Promise<RepoStatus | null> {
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath) {
+			this.repoStatus = null;
+			this.emit();
+			return null;
+		}
+		const { git } = this.plugin;
+		try {
+			const branch = await git.currentBranch(absoluteLocalPath);
+			const counts = await git.aheadBehind(absoluteLocalPath);
+			const changes = await git.status(absoluteLocalPath);
+			this.repoStatus = {
+				branch,
+				defaultBranch: await git.defaultBranch(absoluteLocalPath),
+				branches: await git.branches(absoluteLocalPath),
+				ahead: counts ? counts.ahead : null,
+				behind: counts ? counts.behind : null,
+				changes,
+				syncInProgress: detectSyncInProgress(absoluteLocalPath),
+			};
+		} catch (error: any) {
+			this.repoStatus = { branch: null, defaultBranch: null, branches: [], ahead: null, behind: null, changes: [], syncInProgress: null, error: 'Not cloned yet.' };
+		}
+		this.emit();
+		return this.repoStatus;
+	}
+
+	async clone(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { localMarkdownPath, githubRepoUrl } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath || !githubRepoUrl) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+
+		// @ts-ignore
+		const vaultBasePath = this.plugin.app.vault.adapter.getBasePath();
+		const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
+
+		this.setRunning('clone', true);
+		feedbackUpdater(`Cloning your repository from ${githubRepoUrl}...`, 'status');
+		try {
+			const remoteEnv = await this.plugin.credentials.getRemoteEnv(githubRepoUrl);
+			await this.plugin.git.clone(githubRepoUrl, absoluteLocalPath, vaultBasePath, remoteEnv);
+			feedbackUpdater('Repository cloned successfully!', 'success');
+			return true;
+		} catch (error: any) {
+			console.error('Cloning error:', error.message || error);
+			this.reportGitError('Cloning failed', error, feedbackUpdater);
+			return false;
+		} finally {
+			this.setRunning('clone', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Alternative to cloning: writes a new site into an empty vault folder, points the active site
+	// profile at it and makes the first commit, ready to be pushed to a new GitHub repository
+	async createSite(localMarkdownPathInput: string, options: SiteScaffoldOptions, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const localMarkdownPath = normalizePath(localMarkdownPathInput.trim());
+		const problems = validateScaffoldOptions(options);
+		if (!localMarkdownPathInput.trim() || localMarkdownPath === '/') {
+			problems.unshift('Choose a vault folder for the site.');
+		}
+		if (problems.length > 0) {
+			feedbackUpdater(problems.join('\n'), 'error');
+			return false;
+		}
+		const { adapter } = this.plugin.app.vault;
+		if (await adapter.exists(localMarkdownPath)) {
+			const listing = await adapter.list(localMarkdownPath);
+			if (listing.files.length > 0 || listing.folders.length > 0) {
+				feedbackUpdater(`${localMarkdownPath} is not empty. Choose a new or empty folder for the site.`, 'error');
+				return false;
+			}
+		}
+
+		// @ts-ignore
+		const vaultBasePath = this.plugin.app.vault.adapter.getBasePath();
+		const absoluteLocalPath = path.join(vaultBasePath, localMarkdownPath);
+		const githubRepoUrl = getGitHubRepoUrl(options.owner, options.repo);
+
+		this.setRunning('create', true);
+		try {
+			feedbackUpdater(`Writing the starter site into ${localMarkdownPath}...`, 'status');
+			for (const file of buildScaffoldFiles(options)) {
+				const filePath = `${localMarkdownPath}/${file.path}`;
+				const segments = filePath.split('/').slice(0, -1);
+				for (let i = 1; i <= segments.length; i++) {
+					const folder = segments.slice(0, i).join('/');
+					if (!(await adapter.exists(folder))) {
+						await adapter.mkdir(folder);
+					}
+				}
+				await adapter.write(filePath, file.content);
+			}
+
+			const profile = this.plugin.getActiveProfile();
+			profile.localMarkdownPath = localMarkdownPath;
+			profile.githubRepoUrl = githubRepoUrl;
+			await this.plugin.saveSettings();
+
+			feedbackUpdater('Creating the git repository...', 'status');
+			const { git } = this.plugin;
+			await git.init(absoluteLocalPath, DEFAULT_BRANCH);
+			// The first push creates the branch on GitHub and makes it the upstream (see pushCommits)
+			await git.addRemote(absoluteLocalPath, DEFAULT_REMOTE, githubRepoUrl);
+			await git.addAll(absoluteLocalPath);
+			await git.commit(absoluteLocalPath, 'Create Krems site', this.plugin.getGitAuthorEnv());
+
+			feedbackUpdater(`Site created with a first commit. Next:\n1. Create an empty repository named "${options.repo}" for ${options.owner} on GitHub (no README or license).\n2. Click "Push to GitHub" in the Krems sidebar.\n3. Once the first deployment has run, select the gh-pages branch under Settings > Pages on GitHub.`, 'success');
+			return true;
+		} catch (error: any) {
+			console.error('Create site error:', error.message || error);
+			this.reportGitError('Creating the site failed', error, feedbackUpdater);
+			return false;
+		} finally {
+			this.setRunning('create', false);
+			this.plugin.getKremsViews().forEach(view => view.render());
+			await this.refreshRepoStatus();
+		}
+	}
+
+	getPullStrategy(): SyncStrategy {
+		return this.plugin.settings.pullStrategy === 'merge' ? 'merge' : 'rebase';
+	}
+
+	// Reports a failed git command. Failures the plugin recognizes are explained in plain words, and a window
+	// offers their fix; anything else shows `details` (what git printed, by default).
+	reportGitError(prefix: string, error: any, feedbackUpdater: FeedbackUpdater, details: string = gitErrorOutput(error)) {
+		const problem = classifyGitError(error);
+		if (problem) {
+			this.reportGitProblem(prefix, problem, feedbackUpdater);
+		} else {
+			feedbackUpdater(`${prefix}: ${details}`, 'error');
+		}
+	}
+
+	reportGitProblem(prefix: string, problem: GitProblem, feedbackUpdater: FeedbackUpdater) {
+		feedbackUpdater(`${prefix}: ${problem.title}. ${problem.explanation}`, 'error');
+		if (problem.fixes.length > 0) {
+			new GitErrorModal(this.plugin.app, this.plugin, problem, feedbackUpdater).open();
+		}
+	}
+
+	openConflictModal(absoluteLocalPath: string, strategy: SyncStrategy, feedbackUpdater: FeedbackUpdater) {
+		const refreshingFeedback: FeedbackUpdater = (message, type) => {
+			feedbackUpdater(message, type);
+			this.refreshRepoStatus();
+		};
+		new ConflictModal(this.plugin.app, this.plugin, absoluteLocalPath, strategy, refreshingFeedback).open();
+	}
+
+	async pull(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { githubRepoUrl } = this.plugin.getActiveProfile();
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath || !githubRepoUrl) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+		const pullStrategy = this.getPullStrategy();
+
+		// A sync interrupted by conflicts must be finished (or aborted) before starting another one
+		const syncInProgress = detectSyncInProgress(absoluteLocalPath);
+		if (syncInProgress) {
+			feedbackUpdater(`A previous ${syncInProgress} is still in progress. Resolve the remaining conflicts to continue.`, 'status');
+			this.openConflictModal(absoluteLocalPath, syncInProgress, feedbackUpdater);
+			return false;
+		}
+
+		this.setRunning('pull', true);
+		feedbackUpdater('Fetching remote changes...', 'status');
+		try {
+			const remoteEnv = await this.plugin.credentials.getRemoteEnv(githubRepoUrl);
+			feedbackUpdater(pullStrategy === 'rebase' ? 'Fetching and rebasing local commits onto remote changes...' : 'Fetching and merging remote changes...', 'status');
+
+			try {
+				const syncOutput = await this.plugin.git.pull(absoluteLocalPath, pullStrategy, { env: { ...this.plugin.getGitAuthorEnv(), ...remoteEnv } });
+				if (/up to date/i.test(syncOutput.stdout)) {
+					feedbackUpdater('Already up to date.', 'success');
+				} else {
+					feedbackUpdater('Remote changes pulled successfully!', 'success');
+				}
+				return true;
+			} catch (syncError: any) {
+				const conflictedFiles = await this.plugin.git.conflictedFiles(absoluteLocalPath);
+				if (conflictedFiles.length === 0) {
+					throw syncError;
+				}
+				feedbackUpdater(`${conflictedFiles.length} conflicted file(s) need to be resolved before the ${pullStrategy} can continue.`, 'error');
+				this.openConflictModal(absoluteLocalPath, pullStrategy, feedbackUpdater);
+				return false;
+			}
+		} catch (error: any) {
+			console.error('Pull error:', error.message || error);
+			this.reportGitError('Pull failed', error, feedbackUpdater, `${error.message || error.toString()}${error.stderr ? `\nStderr: ${error.stderr}` : ''}`);
+			return false;
+		} finally {
+			this.setRunning('pull', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	openLintReport(issues: ReportIssue[]) {
+		new IssueReportModal(this.plugin.app, 'Front Matter Check', issues, 'Click a problem to open the page at the offending field.').open();
+	}
+
+	async checkFrontMatter(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set in plugin settings.', 'error');
+			return false;
+		}
+		this.setRunning('lint', true);
+		try {
+			const issues = await lintFrontMatter(this.plugin.app, localMarkdownPath, this.plugin.settings.maxImageSizeKB);
+			const errorCount = issues.filter(issue => issue.severity === 'error').length;
+			feedbackUpdater(`Front matter check: ${errorCount} error(s), ${issues.length - errorCount} warning(s).`, errorCount > 0 ? 'error' : 'success');
+			this.openLintReport(issues);
+			return errorCount === 0;
+		} catch (error: any) {
+			console.error('Front matter check error:', error);
+			feedbackUpdater(`Front matter check failed: ${error.message || error.toString()}`, 'error');
+			return false;
+		} finally {
+			this.setRunning('lint', false);
+		}
+	}
+
+	openLinkReport(issues: ReportIssue[]) {
+		new IssueReportModal(this.plugin.app, 'Link Check', issues, 'Click a problem to open the page at the broken link.').open();
+	}
+
+	async checkLinks(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set in plugin settings.', 'error');
+			return false;
+		}
+		this.setRunning('links', true);
+		try {
+			const issues = await checkSiteLinks(this.plugin.app, localMarkdownPath);
+			const errorCount = issues.filter(issue => issue.severity === 'error').length;
+			feedbackUpdater(`Link check: ${errorCount} broken link(s), ${issues.length - errorCount} warning(s).`, errorCount > 0 ? 'error' : 'success');
+			this.openLinkReport(issues);
+			return errorCount === 0;
+		} catch (error: any) {
+			console.error('Link check error:', error);
+			feedbackUpdater(`Link check failed: ${error.message || error.toString()}`, 'error');
+			return false;
+		} finally {
+			this.setRunning('links', false);
+		}
+	}
+
+	openBuildReport(issues: ReportIssue[]) {
+		new IssueReportModal(this.plugin.app, 'Site Build Check', issues, 'Messages from the Krems build. Click one that names a page to open it.').open();
+	}
+
+	// Builds the site as it would be published (drafts left out) in a temporary folder.
+	// Null when no Krems binary is available.
+	async buildSite(localMarkdownPath: string, absoluteLocalPath: string, feedbackUpdater: FeedbackUpdater): Promise<BuildCheckResult | null> {
+		const binaryPath = await this.plugin.kremsBinary.ensureBinary(feedbackUpdater);
+		if (!binaryPath) {
+			return null;
+		}
+		feedbackUpdater('Building the site with Krems...', 'status');
+		const { app } = this.plugin;
+		// Wikilinks are only converted on the published site when they are rewritten before each push
+		const convertCopy = this.plugin.settings.rewriteWikilinksBeforePush !== false
+			? async (buildDir: string) => { await convertWikilinksInCopy(app, localMarkdownPath, buildDir); }
+			: undefined;
+		return runBuildCheck(binaryPath, absoluteLocalPath, localMarkdownPath, getDraftPaths(app, localMarkdownPath), vaultPath => app.vault.getAbstractFileByPath(vaultPath) instanceof TFile, convertCopy);
+	}
+
+	async checkBuild(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!localMarkdownPath || !absoluteLocalPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set in plugin settings.', 'error');
+			return false;
+		}
+		if (!this.plugin.kremsBinary.confirmDownload('build')) {
+			feedbackUpdater('Build check cancelled.', 'status');
+			return false;
+		}
+		this.setRunning('build', true);
+		try {
+			await this.plugin.prepareSiteContent(feedbackUpdater);
+			const result = await this.buildSite(localMarkdownPath, absoluteLocalPath, feedbackUpdater);
+			if (!result) return false;
+			const seconds = (result.durationMs / 1000).toFixed(1);
+			if (result.success) {
+				feedbackUpdater(`Build check passed in ${seconds} s: Krems generated ${summarizeGeneratedPages(result.pages)}.${result.issues.length ? ` ${result.issues.length} warning(s).` : ''}`, 'success');
+			} else {
+				feedbackUpdater(`Build check failed: ${result.issues.filter(issue => issue.severity === 'error').length} error(s).`, 'error');
+			}
+			if (result.issues.length > 0) {
+				this.openBuildReport(result.issues);
+			}
+			return result.success;
+		} catch (error: any) {
+			console.error('Build check error:', error);
+			feedbackUpdater(`Build check failed: ${error.message || error.toString()}`, 'error');
+			return false;
+		} finally {
+			this.setRunning('build', false);
+		}
+	}
+
+	// Prepares the site, lets the user review the changes, then commits the selected files and pushes
+	async push(commitMessage: string, feedbackUpdater: FeedbackUpdater, options: PushOptions = {}): Promise<boolean> {
+		const { localMarkdownPath, githubRepoUrl } = this.plugin.getActiveProfile();
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!localMarkdownPath || !absoluteLocalPath || !githubRepoUrl) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+		if (this.isRunning('push')) {
+			feedbackUpdater('A push is already in progress.', 'status');
+			return false;
+		}
+
+		if (!(await this.confirmPushBranch(absoluteLocalPath, feedbackUpdater))) {
+			return false;
+		}
+		const recordingFeedback = this.recordPushResult(feedbackUpdater);
+
+		this.setRunning('push', true);
+		try {
+			let changes: ChangedFile[];
+			try {
+				await this.plugin.prepareSiteContent(feedbackUpdater, true);
+
+				if (this.plugin.settings.lintBeforePush) {
+					feedbackUpdater('Checking front matter...', 'status');
+					const issues = await lintFrontMatter(this.plugin.app, localMarkdownPath, this.plugin.settings.maxImageSizeKB);
+					const errorCount = issues.filter(issue => issue.severity === 'error').length;
+					if (errorCount > 0) {
+						recordingFeedback(`Push stopped: the front matter check found ${errorCount} error(s). Fix them and push again.`, 'error');
+						this.openLintReport(issues);
+						return false;
+					}
+				}
+
+				if (this.plugin.settings.checkLinksBeforePush) {
+					feedbackUpdater('Checking links...', 'status');
+					const issues = await checkSiteLinks(this.plugin.app, localMarkdownPath);
+					const errorCount = issues.filter(issue => issue.severity === 'error').length;
+					if (errorCount > 0) {
+						recordingFeedback(`Push stopped: the link check found ${errorCount} broken link(s). Fix them and push again.`, 'error');
+						this.openLinkReport(issues);
+						return false;
+					}
+				}
+
+				if (this.plugin.settings.buildBeforePush) {
+					if (!this.plugin.kremsBinary.confirmDownload('build')) {
+						recordingFeedback('Push stopped: the build check needs the Krems binary. Allow the download, or turn off "Build Site Before Push" in settings.', 'error');
+						return false;
+					}
+					const result = await this.buildSite(localMarkdownPath, absoluteLocalPath, feedbackUpdater);
+					if (!result) {
+						recordingFeedback('Push stopped: the build check could not run without the Krems binary.', 'error');
+						return false;
+					}
+					if (!result.success) {
+						recordingFeedback(`Push stopped: the site does not build (${result.issues.filter(issue => issue.severity === 'error').length} error(s)). Fix them and push again.`, 'error');
+						this.openBuildReport(result.issues);
+						return false;
+					}
+					feedbackUpdater(`Site builds: Krems generated ${summarizeGeneratedPages(result.pages)}.`, 'status');
+				}
+
+				feedbackUpdater('Checking for changes (git status)...', 'status');
+				const { publishable, drafts } = separateDraftChanges(await this.plugin.git.status(absoluteLocalPath), getDraftPaths(this.plugin.app, localMarkdownPath));
+				if (drafts.length > 0) {
+					feedbackUpdater(`Leaving ${drafts.length} draft change(s) out of the commit.`, 'status');
+				}
+				changes = publishable;
+			} catch (error: any) {
+				console.error('Push preparation error:', error.message || error);
+				this.reportGitError('Push failed while preparing the site', error, recordingFeedback);
+				return false;
+			}
+
+			if (changes.length === 0) {
+				feedbackUpdater('No local changes to commit. Proceeding to push...', 'status');
+				return await this.commitAndPush(absoluteLocalPath, commitMessage, [], recordingFeedback);
+			}
+			if (options.review === false) {
+				return await this.commitAndPush(absoluteLocalPath, commitMessage, changes, recordingFeedback);
+			}
+
+			feedbackUpdater(`Review ${changes.length} changed file(s) before pushing...`, 'status');
+			const selectedChanges = await new Promise<ChangedFile[] | null>(resolve => {
+				new PushReviewModal(this.plugin.app, this.plugin, absoluteLocalPath, changes, resolve, () => resolve(null)).open();
+			});
+			if (!selectedChanges) {
+				feedbackUpdater('Push cancelled. No files were committed.', 'status');
+				return false;
+			}
+			return await this.commitAndPush(absoluteLocalPath, commitMessage, selectedChanges, recordingFeedback);
+		} finally {
+			this.setRunning('push', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Wraps a feedback updater so every final message also becomes the last push result shown in the view
+	recordPushResult(feedbackUpdater: FeedbackUpdater): FeedbackUpdater {
+		return (message, type) => {
+			feedbackUpdater(message, type);
+			if (type !== 'status') {
+				this.lastPushResult = { success: type === 'success', message, time: new Date() };
+				this.emit();
+			}
+		};
+	}
+
+	// Clears the draft flag of one page, then commits and pushes only that page and the files it uses.
+	// Other local changes are left uncommitted.
+	async publishPage(file: TFile, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { localMarkdownPath, githubRepoUrl } = this.plugin.getActiveProfile();
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!localMarkdownPath || !absoluteLocalPath || !githubRepoUrl) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+		if (!file.path.startsWith(localMarkdownPath + '/')) {
+			feedbackUpdater(`${file.path} is not in the site folder ${localMarkdownPath}.`, 'error');
+			return false;
+		}
+		if (this.isRunning('push')) {
+			feedbackUpdater('A push is already in progress.', 'status');
+			return false;
+		}
+
+		if (!(await this.confirmPushBranch(absoluteLocalPath, feedbackUpdater))) {
+			return false;
+		}
+		const recordingFeedback = this.recordPushResult(feedbackUpdater);
+		this.setRunning('push', true);
+		try {
+			let selectedChanges: ChangedFile[];
+			try {
+				feedbackUpdater(`Marking ${file.basename} as published...`, 'status');
+				await markPagePublished(this.plugin.app, file);
+				await this.plugin.prepareSiteContent(feedbackUpdater, true);
+
+				// Wikilink conversion may have copied embedded images, so collect them afterwards
+				const pagePath = file.path.substring(localMarkdownPath.length + 1);
+				const paths = new Set([pagePath, ...await getPageAssetPaths(this.plugin.app, localMarkdownPath, file)]);
+				const changes = await this.plugin.git.status(absoluteLocalPath);
+				selectedChanges = changes.filter(change => paths.has(change.path));
+			} catch (error: any) {
+				console.error('Publish preparation error:', error.message || error);
+				this.reportGitError(`Publishing ${file.basename} failed`, error, recordingFeedback);
+				return false;
+			}
+			if (selectedChanges.length === 0) {
+				recordingFeedback(`${file.basename} has no changes to publish.`, 'success');
+				return true;
+			}
+			return await this.commitAndPush(absoluteLocalPath, `Publish ${file.basename}`, selectedChanges, recordingFeedback);
+		} finally {
+			this.setRunning('push', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	async commitAndPush(absoluteLocalPath: string, commitMessageInput: string, selectedChanges: ChangedFile[], feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const commitMessage = commitMessageInput.trim() || DEFAULT_COMMIT_MESSAGE;
+
+		try {
+			if (selectedChanges.length > 0) {
+				// Start from an empty index so only the reviewed files end up in the commit
+				await this.plugin.git.resetIndex(absoluteLocalPath);
+
+				feedbackUpdater(`Adding ${selectedChanges.length} selected file(s)...`, 'status');
+				const pathsToStage = selectedChanges
+					.reduce((paths: string[], change) => change.origPath ? paths.concat(change.origPath, change.path) : paths.concat(change.path), []);
+				const cmdOutput = await this.plugin.git.add(absoluteLocalPath, pathsToStage);
+				if (cmdOutput.stderr) { feedbackUpdater(`Git add (warnings): ${cmdOutput.stderr}`, 'status');}
+
+				feedbackUpdater(`Committing with message: "${commitMessage}"...`, 'status');
+				const commit = await this.plugin.git.commit(absoluteLocalPath, commitMessage, this.plugin.getGitAuthorEnv());
+				if (!commit.committed) {
+					feedbackUpdater('No changes to commit. Proceeding to push...', 'status');
+				} else if (commit.result.stderr) {
+					feedbackUpdater(`Git commit (warnings): ${commit.result.stderr}`, 'status');
+				}
+			} else {
+				feedbackUpdater('No files selected for commit. Proceeding to push...', 'status');
+			}
+		} catch (error: any) {
+			console.error('Push error:', error.message || error);
+			this.reportGitError('Push failed', error, feedbackUpdater, `${error.message || error.toString()}${error.stderr ? `\nStderr: ${error.stderr}` : ''}`);
+			return false;
+		}
+		return this.pushCommits(absoluteLocalPath, feedbackUpdater);
+	}
+
+	// Pushes the current branch and starts following the deployment
+	async pushCommits(absoluteLocalPath: string, feedbackUpdater: FeedbackUpdater, errorPrefix = 'Push failed'): Promise<boolean> {
+		const { githubRepoUrl } = this.plugin.getActiveProfile();
+		try {
+			feedbackUpdater('Pushing to remote repository...', 'status');
+			const remoteEnv = await this.plugin.credentials.getRemoteEnv(githubRepoUrl);
+			if (Object.keys(remoteEnv).length > 0) {
+				feedbackUpdater(`Pushing to ${githubRepoUrl} (authenticated with your token)...`, 'status');
+			} else {
+				feedbackUpdater(`Pushing to ${githubRepoUrl} (using your SSH key or Git credential helper)...`, 'status');
+			}
+
+			const branch = await this.plugin.git.currentBranch(absoluteLocalPath);
+			if (branch === 'HEAD') {
+				this.reportGitProblem(errorPrefix, getGitProblem('detached-head'), feedbackUpdater);
+				return false;
+			}
+			// A branch without upstream (new draft branch, new site) is pushed under its own name and tracked from then on
+			const cmdOutput = await this.plugin.git.upstreamBranch(absoluteLocalPath)
+				? await this.plugin.git.push(absoluteLocalPath, undefined, undefined, remoteEnv)
+				: await this.plugin.git.pushSetUpstream(absoluteLocalPath, DEFAULT_REMOTE, branch, remoteEnv);
+			if (cmdOutput.stderr) {
+				feedbackUpdater(`Push successful with warnings: ${cmdOutput.stderr}`, 'success');
+			} else {
+				feedbackUpdater('Site pushed successfully!', 'success');
+			}
+			this.trackDeployment(absoluteLocalPath);
+			return true;
+		} catch (error: any) {
+			console.error('Push error:', error.message || error);
+			this.reportGitError(errorPrefix, error, feedbackUpdater, `${error.message || error.toString()}${error.stderr ? `\nStderr: ${error.stderr}` : ''}`);
+			return false;
+		}
+	}
+
+	// Warns before pushing to a branch that is not published, or one that does not exist on GitHub yet,
+	// and stops pushes without a branch before anything is committed. True when the push may go ahead.
+	async confirmPushBranch(absoluteLocalPath: string, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { git } = this.plugin;
+		let branch: string;
+		let defaultBranch: string | null;
+		let upstream: string | null;
+		try {
+			branch = await git.currentBranch(absoluteLocalPath);
+			defaultBranch = await git.defaultBranch(absoluteLocalPath);
+			upstream = await git.upstreamBranch(absoluteLocalPath);
+		} catch (error: any) {
+			console.warn('Could not read the current branch:', error.message || error);
+			return true; // The push itself reports what is wrong with the repository
+		}
+		if (branch === 'HEAD') {
+			this.reportGitProblem('Push failed', getGitProblem('detached-head'), feedbackUpdater);
+			return false;
+		}
+		if ((defaultBranch && branch !== defaultBranch && !confirm(`You are on the branch "${branch}", but the site is published from "${defaultBranch}". Pushing to "${branch}" does not change the live site.\n\nPush to "${branch}" anyway? To publish it, use "Merge into ${defaultBranch}" in the Krems sidebar.`))
+			|| (!upstream && !confirm(`The branch "${branch}" has no upstream on GitHub yet. Push it as ${DEFAULT_REMOTE}/${branch} and track it from now on?`))) {
+			feedbackUpdater('Push cancelled.', 'status');
+			return false;
+		}
+		return true;
+	}
+
+	async switchBranch(name: string, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set in plugin settings.', 'error');
+			return false;
+		}
+		this.setRunning('branch', true);
+		try {
+			feedbackUpdater(`Switching to ${name}...`, 'status');
+			await this.plugin.git.switchBranch(absoluteLocalPath, name);
+			feedbackUpdater(`Switched to ${name}.`, 'success');
+			return true;
+		} catch (error: any) {
+			console.error('Switch branch error:', error.message || error);
+			this.reportGitError(`Could not switch to ${name}`, error, feedbackUpdater);
+			return false;
+		} finally {
+			this.setRunning('branch', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Starts a branch for work that should not go live yet, such as a redesign. Uncommitted changes move along.
+	async createBranch(name: string, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set in plugin settings.', 'error');
+			return false;
+		}
+		const { git } = this.plugin;
+		this.setRunning('branch', true);
+		try {
+			if (!(await git.isValidBranchName(absoluteLocalPath, name))) {
+				feedbackUpdater(`"${name}" is not a valid branch name. Use letters, digits, "-", "_" and "/".`, 'error');
+				return false;
+			}
+			if ((await git.branches(absoluteLocalPath)).some(branch => branch.name === name)) {
+				feedbackUpdater(`A branch named "${name}" already exists. Switch to it instead.`, 'error');
+				return false;
+			}
+			await git.createBranch(absoluteLocalPath, name);
+			feedbackUpdater(`Created and switched to ${name}. Pushes now go to ${name} and leave the live site alone until you merge it.`, 'success');
+			return true;
+		} catch (error: any) {
+			console.error('Create branch error:', error.message || error);
+			this.reportGitError(`Could not create ${name}`, error, feedbackUpdater);
+			return false;
+		} finally {
+			this.setRunning('branch', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Pushes the commits of the current branch, creating it on GitHub if needed. No publishing-branch warning:
+	// pushing a draft branch is the point.
+	async pushBranch(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath || !this.isConfigured()) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+		if (this.isRunning('push')) {
+			feedbackUpdater('A push is already in progress.', 'status');
+			return false;
+		}
+		this.setRunning('push', true);
+		try {
+			return await this.pushCommits(absoluteLocalPath, this.recordPushResult(feedbackUpdater));
+		} finally {
+			this.setRunning('push', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Publishes a draft branch: switches to the publishing branch, brings it up to date, merges the
+	// draft branch into it and pushes. Conflicts open the conflict window.
+	async mergeIntoDefault(feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { githubRepoUrl } = this.plugin.getActiveProfile();
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath || !githubRepoUrl) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+		if (this.isRunning('push')) {
+			feedbackUpdater('A push is already in progress.', 'status');
+			return false;
+		}
+		const { git } = this.plugin;
+		const recordingFeedback = this.recordPushResult(feedbackUpdater);
+		this.setRunning('push', true);
+		try {
+			const branch = await git.currentBranch(absoluteLocalPath);
+			const target = await git.defaultBranch(absoluteLocalPath);
+			if (!target || branch === target) {
+				recordingFeedback(target ? `You are already on ${target}. Switch to the branch you want to publish first.` : 'Could not tell which branch is published. Pull once so the plugin learns the default branch of the repository.', 'error');
+				return false;
+			}
+			const changes = await git.status(absoluteLocalPath);
+			if (changes.length > 0) {
+				recordingFeedback(`${branch} has ${changes.length} uncommitted change(s). Push them to ${branch} (or discard them) before merging.`, 'error');
+				return false;
+			}
+
+			const env = { ...this.plugin.getGitAuthorEnv(), ...await this.plugin.credentials.getRemoteEnv(githubRepoUrl) };
+			feedbackUpdater(`Switching to ${target}...`, 'status');
+			await git.switchBranch(absoluteLocalPath, target);
+			let merging = false;
+			try {
+				if (await git.upstreamBranch(absoluteLocalPath)) {
+					feedbackUpdater(`Bringing ${target} up to date...`, 'status');
+					await git.pull(absoluteLocalPath, this.getPullStrategy(), { env });
+				}
+				feedbackUpdater(`Merging ${branch} into ${target}...`, 'status');
+				merging = true;
+				await git.merge(absoluteLocalPath, branch, env);
+			} catch (error: any) {
+				// Conflicts between the two branches are resolved in place; any other failure puts the user back on their branch
+				const conflictedFiles = merging ? await git.conflictedFiles(absoluteLocalPath).catch(() => []) : [];
+				if (conflictedFiles.length > 0) {
+					recordingFeedback(`${conflictedFiles.length} file(s) changed on both ${branch} and ${target}. You are now on ${target}: resolve the conflicts and push to publish, or abort the merge and switch back to ${branch}.`, 'error');
+					this.openConflictModal(absoluteLocalPath, 'merge', feedbackUpdater);
+					return false;
+				}
+				console.error('Merge error:', error.message || error);
+				const location = await this.returnToBranch(absoluteLocalPath, branch) ? `you are back on ${branch}` : `you are now on ${target}, not ${branch}`;
+				this.reportGitError(`Merging failed (${location})`, error, recordingFeedback);
+				return false;
+			}
+			return await this.pushCommits(absoluteLocalPath, recordingFeedback, `${branch} was merged into ${target}, but the push failed (you are now on ${target}; push again to publish)`);
+		} catch (error: any) {
+			console.error('Merge error:', error.message || error);
+			this.reportGitError('Merging failed', error, recordingFeedback);
+			return false;
+		} finally {
+			this.setRunning('push', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Undoes a half-finished pull or merge and checks `branch` out again. False when that fails too.
+	async returnToBranch(absoluteLocalPath: string, branch: string): Promise<boolean> {
+		try {
+			const syncInProgress = detectSyncInProgress(absoluteLocalPath);
+			if (syncInProgress) {
+				await this.plugin.git.abortSync(absoluteLocalPath, syncInProgress);
+			}
+			await this.plugin.git.switchBranch(absoluteLocalPath, branch);
+			return true;
+		} catch (error: any) {
+			console.error(`Could not switch back to ${branch}:`, error.message || error);
+			return false;
+		}
+	}
+
+	// Puts one file back the way it was in `entry` (or just before, if that commit deleted it).
+	// The result is an ordinary local change that goes out with the next push.
+	async restoreFile(entry: GitLogEntry, change: ChangedFile, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath) {
+			feedbackUpdater('Error: Local Markdown Directory must be set in plugin settings.', 'error');
+			return false;
+		}
+		const source = change.status === 'deleted' ? `${entry.hash}^` : entry.hash;
+		try {
+			feedbackUpdater(`Restoring ${change.path} from ${entry.shortHash}...`, 'status');
+			await this.plugin.git.restoreFile(absoluteLocalPath, source, change.path);
+			feedbackUpdater(`Restored ${change.path} from ${entry.shortHash}. Review it and push it like any other change.`, 'success');
+			return true;
+		} catch (error: any) {
+			console.error('Restore error:', error.message || error);
+			this.reportGitError(`Restoring ${change.path} failed`, error, feedbackUpdater);
+			return false;
+		} finally {
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Commits the inverse of a published commit and pushes it, taking its changes off the site
+	async revertCommit(entry: GitLogEntry, feedbackUpdater: FeedbackUpdater): Promise<boolean> {
+		const { githubRepoUrl } = this.plugin.getActiveProfile();
+		const absoluteLocalPath = this.getAbsoluteSitePath();
+		if (!absoluteLocalPath || !githubRepoUrl) {
+			feedbackUpdater('Error: Local Markdown Directory and GitHub Repo URL must be set in plugin settings.', 'error');
+			return false;
+		}
+		if (this.isRunning('push')) {
+			feedbackUpdater('A push is already in progress.', 'status');
+			return false;
+		}
+		const syncInProgress = detectSyncInProgress(absoluteLocalPath);
+		if (syncInProgress) {
+			feedbackUpdater(`A ${syncInProgress} is still in progress. Finish or abort it before reverting.`, 'error');
+			return false;
+		}
+
+		if (!(await this.confirmPushBranch(absoluteLocalPath, feedbackUpdater))) {
+			return false;
+		}
+		const recordingFeedback = this.recordPushResult(feedbackUpdater);
+		this.setRunning('push', true);
+		try {
+			feedbackUpdater(`Reverting ${entry.shortHash} "${entry.subject}"...`, 'status');
+			try {
+				await this.plugin.git.revert(absoluteLocalPath, entry, this.plugin.getGitAuthorEnv());
+			} catch (revertError: any) {
+				const conflictedFiles = await this.plugin.git.conflictedFiles(absoluteLocalPath);
+				if (conflictedFiles.length === 0) {
+					throw revertError;
+				}
+				await this.plugin.git.abortRevert(absoluteLocalPath);
+				recordingFeedback(`${entry.shortHash} cannot be reverted automatically because later changes touch the same lines in: ${conflictedFiles.join(', ')}. Nothing was changed; restore the files one by one instead.`, 'error');
+				return false;
+			}
+			return await this.pushCommits(absoluteLocalPath, recordingFeedback);
+		} catch (error: any) {
+			console.error('Revert error:', error.message || error);
+			this.reportGitError(`Reverting ${entry.shortHash} failed`, error, recordingFeedback);
+			return false;
+		} finally {
+			this.setRunning('push', false);
+			await this.refreshRepoStatus();
+		}
+	}
+
+	// Follows the GitHub Actions run of the commit just pushed. Failing to start does not fail the push.
+	// Pushes to other branches than the published one (draft branches) do not deploy, so they are not followed.
+	async trackDeployment(absoluteLocalPath: string) {
+		try {
+			const { git } = this.plugin;
+			const sha = await git.headCommit(absoluteLocalPath);
+			const branch = await git.currentBranch(absoluteLocalPath);
+			const defaultBranch = await git.defaultBranch(absoluteLocalPath);
+			if (defaultBranch && branch !== defaultBranch) {
+				this.plugin.deployments.skip(sha, `Not followed: "${branch}" is not the published branch, so this push does not deploy the site. Merge it into "${defaultBranch}" to publish it.`);
+				return;
+			}
+			await this.plugin.deployments.track(sha);
+		} catch (error: any) {
+			console.warn('Could not follow the deployment:', error.message || error);
+		}
+	}
+}
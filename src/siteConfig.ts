@@ -0,0 +1,101 @@
+import { App, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+
+export interface KremsMenuItem {
+	title: string;
+	path: string; // Relative to the site folder, e.g. "universities/index.md"
+}
+
+export interface KremsWebsiteConfig {
+	url?: string;
+	name?: string;
+	basePath?: string;
+	devPath?: string;
+	alternativeCSSDir?: string;
+	alternativeJSDir?: string;
+	alternativeFavicon?: string;
+	[key: string]: unknown; // Keys the plugin does not know about are preserved
+}
+
+export interface KremsSiteConfig {
+	website: KremsWebsiteConfig;
+	menu: KremsMenuItem[];
+	[key: string]: unknown;
+}
+
+export type AssetOverrides = Pick<KremsWebsiteConfig, 'alternativeCSSDir' | 'alternativeJSDir' | 'alternativeFavicon'>;
+
+export const ASSET_OVERRIDE_KEYS: (keyof AssetOverrides)[] = ['alternativeCSSDir', 'alternativeJSDir', 'alternativeFavicon'];
+
+export function getSiteConfigPath(localMarkdownPath: string): string {
+	return normalizePath(`${localMarkdownPath}/config.yaml`);
+}
+
+// Reads config.yaml from the site folder; a missing file yields an empty config
+export async function readSiteConfig(app: App, localMarkdownPath: string): Promise<KremsSiteConfig> {
+	const configPath = getSiteConfigPath(localMarkdownPath);
+	if (!(await app.vault.adapter.exists(configPath))) {
+		return { website: {}, menu: [] };
+	}
+	const parsed = parseYaml(await app.vault.adapter.read(configPath)) || {};
+	if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error('config.yaml must contain a mapping with "website" and "menu" keys.');
+	}
+	const website = parsed.website && typeof parsed.website === 'object' ? parsed.website : {};
+	const menu = Array.isArray(parsed.menu)
+		? parsed.menu
+			.filter((item: unknown) => item && typeof item === 'object')
+			.map((item: Record<string, unknown>) => ({ ...item, title: String(item.title ?? ''), path: String(item.path ?? '') }))
+		: [];
+	return { ...parsed, website, menu };
+}
+
+export async function writeSiteConfig(app: App, localMarkdownPath: string, config: KremsSiteConfig): Promise<void> {
+	const website: KremsWebsiteConfig = {};
+	// Empty optional values are dropped so Krems falls back to its defaults
+	for (const key of Object.keys(config.website)) {
+		const value = config.website[key];
+		if (value !== undefined && value !== null && value !== '') {
+			website[key] = value;
+		}
+	}
+	await app.vault.adapter.write(getSiteConfigPath(localMarkdownPath), stringifyYaml({ ...config, website }));
+}
+
+// Returns human-readable problems; an empty list means the config can be saved
+export async function validateSiteConfig(app: App, localMarkdownPath: string, config: KremsSiteConfig): Promise<string[]> {
+	const problems: string[] = [];
+	const { url, name, basePath, devPath } = config.website;
+	const siteRoot = normalizePath(localMarkdownPath);
+
+	if (!url) {
+		problems.push('website.url is required.');
+	} else if (!/^https?:\/\/[^\s/]+(\/\S*)?$/.test(url)) {
+		problems.push(`website.url "${url}" must be a full http(s) URL.`);
+	}
+	if (!name) {
+		problems.push('website.name is required.');
+	}
+	for (const [key, value] of [['basePath', basePath], ['devPath', devPath]]) {
+		if (value && !value.startsWith('/')) {
+			problems.push(`website.${key} "${value}" must start with "/".`);
+		}
+	}
+	for (const key of ASSET_OVERRIDE_KEYS) {
+		const value = config.website[key];
+		if (value && !(await app.vault.adapter.exists(normalizePath(`${siteRoot}/${value}`)))) {
+			problems.push(`website.${key} "${value}" does not exist in the site folder.`);
+		}
+	}
+	config.menu.forEach((item, index) => {
+		const label = `Menu item ${index + 1}${item.title ? ` ("${item.title}")` : ''}`;
+		if (!item.title.trim()) {
+			problems.push(`${label} needs a title.`);
+		}
+		if (!item.path.trim()) {
+			problems.push(`${label} needs a path.`);
+		} else if (!app.vault.getAbstractFileByPath(normalizePath(`${siteRoot}/${item.path}`))) {
+			problems.push(`${label} points to "${item.path}", which does not exist in the site folder.`);
+		}
+	});
+	return problems;
+}
@@ -0,0 +1,85 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+
+// Front matter of a Krems page, as read from Obsidian's metadata cache
+export interface SitePage {
+	file: TFile;
+	sitePath: string; // Path relative to the site folder, e.g. "posts/hello.md"
+	frontmatter: Record<string, any>;
+	title?: string;
+	date?: Date; // Only set when the `date` field parses
+	rawDate?: string;
+	isList: boolean;
+	isDraft: boolean; // `draft: true` or `publish: false`; kept out of commits, the preview and list pages
+	tags: string[];
+	author?: string;
+	tagFilter: string[];
+	authorFilter: string[];
+}
+
+export function toStringList(value: unknown): string[] {
+	if (value === undefined || value === null || value === '') return [];
+	const values = Array.isArray(value) ? value : [value];
+	return values.map(item => String(item).trim()).filter(item => item.length > 0);
+}
+
+// Accepts the date formats Krems understands: YYYY-MM-DD with an optional time part
+export function parsePageDate(value: unknown): Date | undefined {
+	if (value === undefined || value === null || value === '') return undefined;
+	const text = String(value).trim();
+	if (!/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?([.,]\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(text)) return undefined;
+	const parsed = new Date(text.replace(' ', 'T'));
+	return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+export function isDraftFrontmatter(frontmatter: Record<string, any>): boolean {
+	const draft = frontmatter.draft;
+	const publish = frontmatter.publish;
+	return draft === true || String(draft).toLowerCase() === 'true' || publish === false || String(publish).toLowerCase() === 'false';
+}
+
+export function getSitePages(app: App, localMarkdownPath: string): SitePage[] {
+	const siteRoot = normalizePath(localMarkdownPath);
+	return app.vault.getMarkdownFiles()
+		.filter(file => file.path.startsWith(siteRoot + '/'))
+		.map(file => {
+			const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter || {};
+			const author = frontmatter.author !== undefined && frontmatter.author !== null ? String(frontmatter.author).trim() : undefined;
+			return {
+				file,
+				sitePath: file.path.substring(siteRoot.length + 1),
+				frontmatter,
+				title: frontmatter.title !== undefined && frontmatter.title !== null ? String(frontmatter.title).trim() : undefined,
+				date: parsePageDate(frontmatter.date),
+				rawDate: frontmatter.date !== undefined && frontmatter.date !== null ? String(frontmatter.date) : undefined,
+				isList: frontmatter.type === 'list',
+				isDraft: isDraftFrontmatter(frontmatter),
+				tags: toStringList(frontmatter.tags),
+				author: author || undefined,
+				tagFilter: toStringList(frontmatter.tagFilter),
+				authorFilter: toStringList(frontmatter.authorFilter),
+			};
+		});
+}
+
+// Dated pages a list page shows, newest first. Without filters a list shows the dated pages of its
+// own folder; with `tagFilter`/`authorFilter` it shows matching pages in its folder and all subfolders.
+export function getListPageMatches(listPage: SitePage, pages: SitePage[]): SitePage[] {
+	const listDir = path.posix.dirname(listPage.sitePath);
+	const hasFilters = listPage.tagFilter.length > 0 || listPage.authorFilter.length > 0;
+
+	return pages
+		.filter(page => {
+			if (page === listPage || page.isList || page.isDraft || !page.date) return false;
+			const pageDir = path.posix.dirname(page.sitePath);
+			if (!hasFilters) {
+				return pageDir === listDir;
+			}
+			const inScope = listDir === '.' || pageDir === listDir || pageDir.startsWith(listDir + '/');
+			if (!inScope) return false;
+			const tagMatch = page.tags.some(tag => listPage.tagFilter.includes(tag));
+			const authorMatch = page.author !== undefined && listPage.authorFilter.includes(page.author);
+			return tagMatch || authorMatch;
+		})
+		.sort((a, b) => (b.date as Date).getTime() - (a.date as Date).getTime());
+}
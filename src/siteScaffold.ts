@@ -0,0 +1,142 @@
+import { stringifyYaml } from 'obsidian';
+import { formatPageDate, getBuiltInTemplate, renderPage } from './pageTemplates';
+
+export const DEFAULT_BRANCH = 'main';
+export const DEPLOY_WORKFLOW_PATH = '.github/workflows/deploy.yml';
+
+export interface SiteScaffoldOptions {
+	siteName: string;
+	owner: string; // GitHub user or organization
+	repo: string;
+	url: string; // Where GitHub Pages will serve the site
+	basePath: string; // Empty for a user or organization site
+	author?: string;
+}
+
+export interface ScaffoldFile {
+	path: string; // Relative to the site folder
+	content: string;
+}
+
+// A user or organization site (<owner>.github.io) is served from the root, any other repository from /<repo>
+export function isUserPagesRepo(owner: string, repo: string): boolean {
+	return repo.toLowerCase() === `${owner.toLowerCase()}.github.io`;
+}
+
+export function getDefaultSiteUrl(owner: string, repo: string): string {
+	if (!owner) return '';
+	const host = `https://${owner.toLowerCase()}.github.io`;
+	return !repo || isUserPagesRepo(owner, repo) ? host : `${host}/${repo}`;
+}
+
+export function getDefaultBasePath(owner: string, repo: string): string {
+	return !repo || isUserPagesRepo(owner, repo) ? '' : `/${repo}`;
+}
+
+export function getGitHubRepoUrl(owner: string, repo: string): string {
+	return `https://github.com/${owner}/${repo}.git`;
+}
+
+// Returns human-readable problems with the form; an empty list means the site can be created
+export function validateScaffoldOptions(options: SiteScaffoldOptions): string[] {
+	const problems: string[] = [];
+	if (!options.siteName.trim()) {
+		problems.push('The site needs a name.');
+	}
+	if (!/^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/.test(options.owner)) {
+		problems.push('Enter the GitHub user or organization that will own the repository.');
+	}
+	if (!/^[A-Za-z0-9._-]+$/.test(options.repo) || options.repo === '.' || options.repo === '..') {
+		problems.push('The repository name may only contain letters, digits, ".", "-" and "_".');
+	}
+	if (!/^https?:\/\/[^\s/]+(\/\S*)?$/.test(options.url)) {
+		problems.push(`The site URL "${options.url}" must be a full http(s) URL.`);
+	}
+	if (options.basePath && !options.basePath.startsWith('/')) {
+		problems.push(`The base path "${options.basePath}" must start with "/".`);
+	}
+	return problems;
+}
+
+// Builds with the latest Krems release on every push to the default branch and publishes the
+// output to the gh-pages branch, which GitHub Pages serves
+function renderDeployWorkflow(): string {
+	return `name: Build and deploy Krems site
+
+on:
+  push:
+    branches: [${DEFAULT_BRANCH}]
+  workflow_dispatch:
+
+permissions:
+  contents: write
+
+concurrency:
+  group: pages
+  cancel-in-progress: true
+
+jobs:
+  deploy:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+
+      - name: Download Krems
+        run: |
+          curl -fsSL -o krems https://github.com/mreider/krems/releases/latest/download/krems-linux-amd64
+          chmod +x krems
+
+      - name: Build site
+        run: ./krems --build
+
+      - name: Publish to gh-pages
+        uses: peaceiris/actions-gh-pages@v4
+        with:
+          github_token: \${{ secrets.GITHUB_TOKEN }}
+          publish_dir: ./docs
+`;
+}
+
+// Every file of a new site: config.yaml, a home list page, one sample page, an images folder and the deploy workflow
+export function buildScaffoldFiles(options: SiteScaffoldOptions, now: Date = new Date()): ScaffoldFile[] {
+	const website: Record<string, string> = { url: options.url, name: options.siteName.trim() };
+	if (options.basePath) website.basePath = options.basePath;
+	const config = {
+		website,
+		menu: [
+			{ title: 'Home', path: 'index.md' },
+			{ title: 'Hello', path: 'posts/hello.md' },
+		],
+	};
+
+	const home = renderPage({ ...getBuiltInTemplate('list'), body: '' }, {
+		kind: 'list',
+		title: options.siteName.trim(),
+		tags: [],
+		tagFilter: [],
+		authorFilter: [],
+		draft: false,
+	});
+	const sample = renderPage({
+		...getBuiltInTemplate('default'),
+		body: '\n# {{title}}\n\nThis is the first page of your Krems site. Edit it in Obsidian, then click "Push to GitHub" in the Krems sidebar to publish your changes.\n\nPages with a date show up on list pages such as the home page. Put images in the `images/` folder and link them as `/images/name.png`.\n',
+	}, {
+		kind: 'default',
+		title: 'Hello, Krems',
+		date: formatPageDate(now),
+		author: options.author || undefined,
+		tags: ['welcome'],
+		tagFilter: [],
+		authorFilter: [],
+		draft: false,
+	});
+
+	return [
+		{ path: 'config.yaml', content: stringifyYaml(config) },
+		{ path: 'index.md', content: home },
+		{ path: 'posts/hello.md', content: sample },
+		{ path: 'images/.gitkeep', content: '' },
+		{ path: DEPLOY_WORKFLOW_PATH, content: renderDeployWorkflow() },
+		{ path: '.gitignore', content: '.tmp/\n.DS_Store\n' },
+	];
+}
@@ -0,0 +1,44 @@
+import * as path from 'path';
+
+// Krems serves `dir/index.md` as the folder URL `dir/` and `dir/page.md` as `dir/page.html`
+export function pageUrlForPath(siteRelativePath: string): string {
+	const posixPath = siteRelativePath.split(path.sep).join('/');
+	if (posixPath === 'index.md') {
+		return '';
+	}
+	if (posixPath.endsWith('/index.md')) {
+		return posixPath.substring(0, posixPath.length - 'index.md'.length);
+	}
+	return posixPath.replace(/\.md$/i, '.html');
+}
+
+// URL of `toPath` relative to the page generated from `fromPath` (both site-relative .md paths)
+export function relativePageUrl(fromPath: string, toPath: string): string {
+	const fromUrl = pageUrlForPath(fromPath);
+	const fromDir = fromUrl.endsWith('/') || fromUrl === '' ? fromUrl : path.posix.dirname(fromUrl) + '/';
+	const toUrl = pageUrlForPath(toPath);
+	let relative = path.posix.relative(fromDir, toUrl);
+	if (toUrl.endsWith('/') || toUrl === '') {
+		relative = relative ? `${relative}/` : './';
+	}
+	return encodeUrlPath(relative);
+}
+
+export function encodeUrlPath(urlPath: string): string {
+	return urlPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+// Heading IDs as generated by Krems' Markdown renderer: lower case, words joined by dashes
+export function headingSlug(heading: string): string {
+	return heading
+		.trim()
+		.toLowerCase()
+		.replace(/[^\w\s-]/g, '')
+		.replace(/\s+/g, '-');
+}
+
+// Joins a base path such as "/my-site" or "/" with a site-relative URL
+export function joinUrlPath(basePath: string | undefined, urlPath: string): string {
+	const base = (basePath || '/').replace(/\/+$/, '');
+	return `${base.startsWith('/') || base === '' ? base : '/' + base}/${urlPath.replace(/^\/+/, '')}`;
+}
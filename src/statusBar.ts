@@ -0,0 +1,53 @@
+import type KremsObsidianPlugin from '../main';
+
+// One-line summary of preview server and sync state in Obsidian's status bar. Clicking it opens the Krems view.
+export class KremsStatusBar {
+	plugin: KremsObsidianPlugin;
+	el: HTMLElement;
+
+	constructor(plugin: KremsObsidianPlugin, el: HTMLElement) {
+		this.plugin = plugin;
+		this.el = el;
+		this.el.addClass('krems-status-bar', 'mod-clickable');
+		this.el.addEventListener('click', () => this.plugin.activateView());
+		this.plugin.register(this.plugin.actions.onChange(() => this.update()));
+		this.plugin.register(this.plugin.deployments.onChange(() => this.update()));
+		this.plugin.register(this.plugin.preview.onChange(event => {
+			if (event.type === 'state') this.update();
+		}));
+		this.update();
+	}
+
+	update() {
+		const { actions, preview } = this.plugin;
+		const parts: string[] = [];
+
+		if (preview.state === 'running') {
+			parts.push(`preview :${preview.port}`);
+		} else if (preview.state !== 'stopped') {
+			parts.push(`preview ${preview.state}`);
+		}
+
+		const deployment = this.plugin.deployments.status;
+		if (deployment && this.plugin.deployments.isActive()) {
+			parts.push('deploying...');
+		} else if (deployment && deployment.state === 'failure') {
+			parts.push('deploy failed');
+		}
+
+		if (actions.running.length > 0) {
+			parts.push(`${actions.running.join(', ')}...`);
+		} else if (actions.repoStatus && !actions.repoStatus.error) {
+			const { ahead, behind, changes, syncInProgress } = actions.repoStatus;
+			if (syncInProgress) {
+				parts.push(`${syncInProgress} in progress`);
+			} else {
+				if (ahead !== null) parts.push(`↑${ahead} ↓${behind}`);
+				if (changes.length > 0) parts.push(`${changes.length} changed`);
+			}
+		}
+
+		this.el.setText(`Krems${parts.length > 0 ? ': ' + parts.join(' · ') : ''}`);
+		this.el.setAttr('aria-label', 'Open Krems Publisher');
+	}
+}
@@ -0,0 +1,120 @@
+import { App } from 'obsidian';
+import { SitePage, getSitePages } from './siteIndex';
+import { TEMPLATES_FOLDER } from './pageTemplates';
+
+export type TaxonomyKind = 'tag' | 'author';
+
+export interface TaxonomyEntry {
+	value: string;
+	pages: SitePage[]; // Pages with this tag or author, newest first; undated pages last
+	listPages: SitePage[]; // List pages that filter on it
+}
+
+export interface TaxonomyIndex {
+	pages: SitePage[];
+	tags: TaxonomyEntry[];
+	authors: TaxonomyEntry[];
+	listPages: SitePage[];
+}
+
+// Front matter fields holding each kind of value
+const TAXONOMY_FIELDS: Record<TaxonomyKind, { pageField: string; filterField: string }> = {
+	tag: { pageField: 'tags', filterField: 'tagFilter' },
+	author: { pageField: 'author', filterField: 'authorFilter' },
+};
+
+export function compareByDate(a: SitePage, b: SitePage): number {
+	if (a.date && b.date) return b.date.getTime() - a.date.getTime();
+	if (a.date) return -1;
+	if (b.date) return 1;
+	return a.sitePath.localeCompare(b.sitePath);
+}
+
+// Indexes the pages of the site (templates excluded) by tag and author
+export function buildTaxonomyIndex(app: App, localMarkdownPath: string): TaxonomyIndex {
+	const pages = getSitePages(app, localMarkdownPath).filter(page => !page.sitePath.startsWith(TEMPLATES_FOLDER + '/'));
+	const tags = new Map<string, TaxonomyEntry>();
+	const authors = new Map<string, TaxonomyEntry>();
+	const getEntry = (entries: Map<string, TaxonomyEntry>, value: string) => {
+		let entry = entries.get(value);
+		if (!entry) {
+			entry = { value, pages: [], listPages: [] };
+			entries.set(value, entry);
+		}
+		return entry;
+	};
+
+	for (const page of pages) {
+		page.tags.forEach(tag => getEntry(tags, tag).pages.push(page));
+		if (page.author) getEntry(authors, page.author).pages.push(page);
+		if (page.isList) {
+			page.tagFilter.forEach(tag => getEntry(tags, tag).listPages.push(page));
+			page.authorFilter.forEach(author => getEntry(authors, author).listPages.push(page));
+		}
+	}
+
+	const sorted = (entries: Map<string, TaxonomyEntry>) => Array.from(entries.values())
+		.map(entry => ({ ...entry, pages: entry.pages.sort(compareByDate) }))
+		.sort((a, b) => a.value.localeCompare(b.value));
+	return {
+		pages,
+		tags: sorted(tags),
+		authors: sorted(authors),
+		listPages: pages.filter(page => page.isList).sort((a, b) => a.sitePath.localeCompare(b.sitePath)),
+	};
+}
+
+// Folds case, accents, separators and a plural "s", so "Machine Learning", "machine-learning" and "machine_learnings" collide
+export function taxonomyKey(value: string): string {
+	const key = value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+		.replace(/[\s_-]+/g, '-').replace(/^-+|-+$/g, '');
+	return key.length > 3 && key.endsWith('s') && !key.endsWith('ss') ? key.slice(0, -1) : key;
+}
+
+// Groups of values that are probably meant to be the same tag or author. Krems matches filters exactly,
+// so "About" on a page is not picked up by a list page filtering on "about".
+export function findNearDuplicates(values: string[]): string[][] {
+	const groups = new Map<string, string[]>();
+	for (const value of values) {
+		const key = taxonomyKey(value);
+		groups.set(key, (groups.get(key) || []).concat(value));
+	}
+	return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+function replaceValue(value: unknown, from: string, to: string): { value: unknown; changed: boolean } {
+	if (Array.isArray(value)) {
+		if (!value.some(item => String(item).trim() === from)) return { value, changed: false };
+		const renamed: unknown[] = [];
+		for (const item of value) {
+			const next = String(item).trim() === from ? to : item;
+			if (!renamed.some(existing => String(existing).trim() === String(next).trim())) renamed.push(next);
+		}
+		return { value: renamed, changed: true };
+	}
+	if (value !== undefined && value !== null && String(value).trim() === from) {
+		return { value: to, changed: true };
+	}
+	return { value, changed: false };
+}
+
+// Renames a tag or author on every page of the site, in page front matter and in list page filters.
+// Renaming onto an existing value merges the two. Returns the number of pages changed.
+export async function renameTaxonomyValue(app: App, localMarkdownPath: string, kind: TaxonomyKind, from: string, to: string): Promise<number> {
+	const { pageField, filterField } = TAXONOMY_FIELDS[kind];
+	let changedPages = 0;
+	for (const page of getSitePages(app, localMarkdownPath)) {
+		const uses = kind === 'tag'
+			? page.tags.includes(from) || page.tagFilter.includes(from)
+			: page.author === from || page.authorFilter.includes(from);
+		if (!uses) continue;
+		await app.fileManager.processFrontMatter(page.file, frontmatter => {
+			for (const field of [pageField, filterField]) {
+				const result = replaceValue(frontmatter[field], from, to);
+				if (result.changed) frontmatter[field] = result.value;
+			}
+		});
+		changedPages++;
+	}
+	return changedPages;
+}
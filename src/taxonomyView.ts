@@ -0,0 +1,260 @@
+import { App, ItemView, Modal, Notice, Setting, WorkspaceLeaf, debounce } from 'obsidian';
+import type KremsObsidianPlugin from '../main';
+import { SitePage, getListPageMatches } from './siteIndex';
+import { TaxonomyEntry, TaxonomyIndex, TaxonomyKind, buildTaxonomyIndex, findNearDuplicates, renameTaxonomyValue } from './taxonomy';
+import { openFileAtLine } from './reportModal';
+
+export const KREMS_TAXONOMY_VIEW_TYPE = 'krems-publisher-taxonomy';
+
+type TaxonomyTab = 'tags' | 'authors' | 'lists';
+
+const KIND_FOR_TAB: Record<'tags' | 'authors', TaxonomyKind> = { tags: 'tag', authors: 'author' };
+
+// Asks for the new name of a tag or author
+class RenameValueModal extends Modal {
+	kind: TaxonomyKind;
+	value: string;
+	onSubmit: (newValue: string) => void;
+
+	constructor(app: App, kind: TaxonomyKind, value: string, onSubmit: (newValue: string) => void) {
+		super(app);
+		this.kind = kind;
+		this.value = value;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: `Rename ${this.kind} "${this.value}"` });
+		contentEl.createEl('p', { text: `Every page and list page filter using "${this.value}" is updated. Renaming to an existing ${this.kind} merges the two.` });
+		let newValue = this.value;
+		const submit = () => {
+			if (!newValue.trim() || newValue.trim() === this.value) return;
+			this.close();
+			this.onSubmit(newValue.trim());
+		};
+		new Setting(contentEl)
+			.setName('New name')
+			.addText(text => {
+				text.setValue(this.value).onChange(value => { newValue = value; });
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.select(), 0);
+			});
+		const buttonRow = contentEl.createDiv({ cls: 'krems-modal-section' });
+		buttonRow.createEl('button', { text: 'Rename', cls: 'mod-cta' }).addEventListener('click', submit);
+		buttonRow.createEl('button', { text: 'Cancel' }).addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+// Browses the site's pages by tag and author, flags near-duplicate values and shows what each
+// list page's filters will pick up, in the order Krems lists them
+export class KremsTaxonomyView extends ItemView {
+	plugin: KremsObsidianPlugin;
+	tab: TaxonomyTab = 'tags';
+	filter = '';
+	expanded: Set<string> = new Set();
+	contentRootEl: HTMLDivElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: KremsObsidianPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return KREMS_TAXONOMY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Krems Tags & Authors';
+	}
+
+	getIcon(): string {
+		return 'tags';
+	}
+
+	async onOpen() {
+		const refresh = debounce(() => this.renderContent(), 1000, true);
+		this.registerEvent(this.app.metadataCache.on('changed', refresh));
+		this.registerEvent(this.app.vault.on('delete', refresh));
+		this.registerEvent(this.app.vault.on('rename', refresh));
+		this.render();
+	}
+
+	render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('krems-taxonomy-view');
+
+		const tabs = container.createDiv({ cls: 'krems-taxonomy-tabs' });
+		const labels: Record<TaxonomyTab, string> = { tags: 'Tags', authors: 'Authors', lists: 'List pages' };
+		(Object.keys(labels) as TaxonomyTab[]).forEach(tab => {
+			const button = tabs.createEl('button', { text: labels[tab] });
+			if (tab === this.tab) button.addClass('mod-cta');
+			button.addEventListener('click', () => {
+				this.tab = tab;
+				this.render();
+			});
+		});
+		const filterInput = container.createEl('input', { type: 'search', placeholder: 'Filter...', cls: 'krems-taxonomy-filter' });
+		filterInput.value = this.filter;
+		filterInput.addEventListener('input', () => {
+			this.filter = filterInput.value;
+			this.renderContent();
+		});
+
+		this.contentRootEl = container.createDiv();
+		this.renderContent();
+	}
+
+	renderContent() {
+		if (!this.contentRootEl) return;
+		this.contentRootEl.empty();
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath) {
+			this.contentRootEl.createEl('p', { text: 'Set the Local Markdown Directory in settings first.', cls: 'krems-warning' });
+			return;
+		}
+		const index = buildTaxonomyIndex(this.app, localMarkdownPath);
+		if (this.tab === 'lists') {
+			this.renderListPages(index);
+		} else {
+			this.renderEntries(KIND_FOR_TAB[this.tab], this.tab === 'tags' ? index.tags : index.authors);
+		}
+	}
+
+	matchesFilter(text: string): boolean {
+		return !this.filter.trim() || text.toLowerCase().includes(this.filter.trim().toLowerCase());
+	}
+
+	renderEntries(kind: TaxonomyKind, entries: TaxonomyEntry[]) {
+		const root = this.contentRootEl;
+		const counts = new Map(entries.map(entry => [entry.value, entry.pages.length]));
+
+		const duplicates = findNearDuplicates(entries.map(entry => entry.value));
+		if (duplicates.length > 0) {
+			const box = root.createDiv({ cls: 'krems-taxonomy-duplicates' });
+			box.createEl('h5', { text: 'Possible duplicates' });
+			box.createEl('p', { text: 'Krems matches list filters exactly, so these are treated as different values. Pick the spelling to keep.' });
+			for (const group of duplicates) {
+				const row = box.createDiv({ cls: 'krems-taxonomy-duplicate-row' });
+				for (const value of group) {
+					const chip = row.createEl('button', { text: `${value} (${counts.get(value) || 0})`, cls: 'krems-chip', attr: { title: `Merge the others into "${value}"` } });
+					chip.addEventListener('click', () => this.mergeValues(kind, group.filter(other => other !== value), value));
+				}
+			}
+		}
+
+		const visible = entries.filter(entry => this.matchesFilter(entry.value));
+		if (visible.length === 0) {
+			root.createEl('p', { text: entries.length === 0 ? `No page has ${kind === 'tag' ? 'tags' : 'an author'} yet.` : 'Nothing matches the filter.' });
+			return;
+		}
+		for (const entry of visible) {
+			const key = `${kind}:${entry.value}`;
+			const item = root.createDiv({ cls: 'krems-taxonomy-entry' });
+			const header = item.createDiv({ cls: 'krems-taxonomy-entry-header' });
+			const title = header.createEl('a', { cls: 'krems-taxonomy-value', text: entry.value });
+			header.createSpan({ cls: 'krems-taxonomy-count', text: `${entry.pages.length} page(s)${entry.listPages.length ? `, ${entry.listPages.length} list filter(s)` : ''}` });
+			const renameButton = header.createEl('button', { text: 'Rename' });
+			renameButton.addEventListener('click', () => {
+				new RenameValueModal(this.app, kind, entry.value, newValue => this.mergeValues(kind, [entry.value], newValue)).open();
+			});
+			title.addEventListener('click', () => {
+				if (this.expanded.has(key)) {
+					this.expanded.delete(key);
+				} else {
+					this.expanded.add(key);
+				}
+				this.renderContent();
+			});
+
+			if (!this.expanded.has(key)) continue;
+			if (entry.pages.length === 0) {
+				item.createEl('p', { cls: 'krems-taxonomy-note', text: `No page uses this ${kind}; only list page filters refer to it.` });
+			}
+			this.renderPageList(item, entry.pages);
+			if (entry.listPages.length > 0) {
+				item.createDiv({ cls: 'krems-taxonomy-note', text: 'Listed on:' });
+				this.renderPageList(item, entry.listPages);
+			}
+		}
+	}
+
+	renderListPages(index: TaxonomyIndex) {
+		const root = this.contentRootEl;
+		const tagValues = new Set(index.tags.filter(entry => entry.pages.length > 0).map(entry => entry.value));
+		const authorValues = new Set(index.authors.filter(entry => entry.pages.length > 0).map(entry => entry.value));
+		const visible = index.listPages.filter(page => this.matchesFilter(`${page.title || ''} ${page.sitePath}`));
+		if (visible.length === 0) {
+			root.createEl('p', { text: index.listPages.length === 0 ? 'The site has no list pages.' : 'Nothing matches the filter.' });
+			return;
+		}
+		for (const listPage of visible) {
+			const item = root.createDiv({ cls: 'krems-taxonomy-entry' });
+			const header = item.createDiv({ cls: 'krems-taxonomy-entry-header' });
+			const title = header.createEl('a', { cls: 'krems-taxonomy-value', text: listPage.title || listPage.sitePath, attr: { title: listPage.sitePath } });
+			title.addEventListener('click', () => openFileAtLine(this.app, listPage.file.path));
+			if (listPage.isDraft) header.createSpan({ cls: 'krems-taxonomy-count', text: 'draft' });
+
+			const filters: string[] = [];
+			if (listPage.tagFilter.length > 0) filters.push(`tags: ${listPage.tagFilter.join(', ')}`);
+			if (listPage.authorFilter.length > 0) filters.push(`authors: ${listPage.authorFilter.join(', ')}`);
+			item.createDiv({ cls: 'krems-taxonomy-note', text: filters.length > 0 ? `Filters (${filters.join('; ')}), this folder and below` : 'No filters: dated pages in this folder' });
+			const unknown = listPage.tagFilter.filter(tag => !tagValues.has(tag)).map(tag => `tag "${tag}"`)
+				.concat(listPage.authorFilter.filter(author => !authorValues.has(author)).map(author => `author "${author}"`));
+			if (unknown.length > 0) {
+				item.createDiv({ cls: 'krems-taxonomy-note krems-warning', text: `No page has ${unknown.join(', ')}.` });
+			}
+
+			const matches = getListPageMatches(listPage, index.pages);
+			if (matches.length === 0) {
+				item.createDiv({ cls: 'krems-taxonomy-note', text: 'Shows no pages.' });
+			} else {
+				this.renderPageList(item, matches);
+			}
+		}
+	}
+
+	renderPageList(parent: HTMLElement, pages: SitePage[]) {
+		const list = parent.createEl('ul', { cls: 'krems-taxonomy-pages' });
+		for (const page of pages) {
+			const row = list.createEl('li');
+			if (page.date) row.createSpan({ cls: 'krems-taxonomy-date', text: page.rawDate ? page.rawDate.substring(0, 10) : '' });
+			const link = row.createEl('a', { text: page.title || page.sitePath, attr: { title: page.sitePath } });
+			link.addEventListener('click', () => openFileAtLine(this.app, page.file.path));
+			if (page.isDraft) row.createSpan({ cls: 'krems-taxonomy-count', text: 'draft' });
+		}
+	}
+
+	// Renames each of `from` to `to` across the site after confirmation
+	async mergeValues(kind: TaxonomyKind, from: string[], to: string) {
+		const { localMarkdownPath } = this.plugin.getActiveProfile();
+		if (!localMarkdownPath || from.length === 0) return;
+		const names = from.map(value => `"${value}"`).join(', ');
+		if (!confirm(`Rename ${kind} ${names} to "${to}" on every page of the site, including list page filters?`)) {
+			return;
+		}
+		try {
+			let changed = 0;
+			for (const value of from) {
+				changed += await renameTaxonomyValue(this.app, localMarkdownPath, kind, value, to);
+			}
+			new Notice(`Krems: renamed ${names} to "${to}" in ${changed} page(s).`);
+		} catch (error: any) {
+			console.error('Rename error:', error);
+			new Notice(`Krems: renaming failed: ${error.message || error.toString()}`);
+		}
+		this.renderContent();
+	}
+}
@@ -0,0 +1,231 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import * as fs from 'fs';
+import { encodeUrlPath, headingSlug, relativePageUrl } from './siteUrls';
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'avif', 'bmp', 'ico'];
+
+// Matches [[target#heading|alias]] and ![[target]] (every part after the target is optional)
+const WIKILINK_REGEX = /(!?)\[\[([^\]|#]*)(#[^\]|]*)?(\|[^\]]*)?\]\]/g;
+// Fenced code blocks and inline code spans are left untouched
+const CODE_REGEX = /(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`)/g;
+const FRONT_MATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+
+export interface UnresolvedLink {
+	file: string; // Vault path of the page containing the link
+	link: string; // The original wikilink text
+	reason: string;
+}
+
+export interface WikilinkReport {
+	filesChanged: number;
+	linksConverted: number;
+	assetsCopied: string[]; // Vault paths of attachments copied into the site's images folder
+	unresolved: UnresolvedLink[];
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+	return filePath.startsWith(folder + '/');
+}
+
+// Where converted pages and copied attachments go: the site folder itself, or a copy of it
+interface ConversionTarget {
+	includes(sitePath: string): boolean; // False for pages left out of the copy (drafts)
+	writePage(page: TFile, sitePath: string, content: string): Promise<void>;
+	copyAsset(asset: TFile, bytes: ArrayBuffer): Promise<string>; // Returns the site-relative path of the copy
+}
+
+// Converts every page of the site folder through `target`
+async function convertSitePages(app: App, localMarkdownPath: string, target: ConversionTarget): Promise<WikilinkReport> {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const report: WikilinkReport = { filesChanged: 0, linksConverted: 0, assetsCopied: [], unresolved: [] };
+	// Source attachment path -> copied path, so an image embedded on several pages is copied once
+	const copiedAssets = new Map<string, string>();
+
+	const pages = app.vault.getMarkdownFiles().filter(file => isInFolder(file.path, siteRoot));
+
+	const copyAsset = async (asset: TFile): Promise<string> => {
+		if (isInFolder(asset.path, `${siteRoot}/images`)) {
+			return asset.path.substring(siteRoot.length + 1);
+		}
+		let copiedPath = copiedAssets.get(asset.path);
+		if (!copiedPath) {
+			copiedPath = await target.copyAsset(asset, await app.vault.readBinary(asset));
+			copiedAssets.set(asset.path, copiedPath);
+		}
+		return copiedPath;
+	};
+
+	for (const page of pages) {
+		const pagePath = page.path.substring(siteRoot.length + 1);
+		if (!target.includes(pagePath)) continue;
+		const content = await app.vault.read(page);
+		const frontMatter = content.match(FRONT_MATTER_REGEX)?.[0] || '';
+		const body = content.substring(frontMatter.length);
+		let converted = 0;
+
+		const convertLink = async (original: string, isEmbed: boolean, linkTarget: string, heading: string, alias: string): Promise<string> => {
+			const anchor = heading ? `#${headingSlug(heading)}` : '';
+			if (!linkTarget) {
+				// [[#Heading]] links to a section of the same page
+				converted++;
+				return `[${alias || heading}](${anchor})`;
+			}
+
+			const destination = app.metadataCache.getFirstLinkpathDest(linkTarget, page.path);
+			if (!destination) {
+				report.unresolved.push({ file: page.path, link: original, reason: 'No matching note or attachment in the vault' });
+				return original;
+			}
+
+			if (destination.extension === 'md') {
+				if (!isInFolder(destination.path, siteRoot)) {
+					report.unresolved.push({ file: page.path, link: original, reason: `"${destination.path}" is outside the site folder and will not be published` });
+					return original;
+				}
+				converted++;
+				const url = relativePageUrl(pagePath, destination.path.substring(siteRoot.length + 1));
+				// Krems cannot transclude notes, so embedded notes become ordinary links
+				return `[${alias || (heading ? `${destination.basename} > ${heading}` : destination.basename)}](${url}${anchor})`;
+			}
+
+			const assetUrl = '/' + encodeUrlPath(await copyAsset(destination));
+			converted++;
+			if (isEmbed && IMAGE_EXTENSIONS.includes(destination.extension.toLowerCase())) {
+				// Obsidian uses the alias of an embed for sizing (e.g. |300); only keep real alt text
+				const altText = alias && !/^\d+(x\d+)?$/.test(alias) ? alias : destination.basename;
+				return `![${altText}](${assetUrl})`;
+			}
+			return `[${alias || destination.name}](${assetUrl})`;
+		};
+
+		const segments = body.split(CODE_REGEX);
+		for (let i = 0; i < segments.length; i += 2) { // Odd indexes are code captured by the split
+			const links: RegExpExecArray[] = [];
+			const linkRegex = new RegExp(WIKILINK_REGEX.source, 'g');
+			let linkMatch: RegExpExecArray | null;
+			while ((linkMatch = linkRegex.exec(segments[i])) !== null) {
+				links.push(linkMatch);
+			}
+			if (links.length === 0) continue;
+
+			// Converted one at a time so attachments shared between links are only copied once
+			const replacements: string[] = [];
+			for (const [original, bang, linkTarget, heading, alias] of links) {
+				replacements.push(await convertLink(original, bang === '!', linkTarget.trim(), heading ? heading.substring(1) : '', alias ? alias.substring(1) : ''));
+			}
+			let index = 0;
+			segments[i] = segments[i].replace(WIKILINK_REGEX, () => replacements[index++]);
+		}
+
+		if (converted > 0) {
+			await target.writePage(page, pagePath, frontMatter + segments.join(''));
+			report.filesChanged++;
+			report.linksConverted += converted;
+		}
+	}
+
+	return report;
+}
+
+// Converts the wikilinks of the site in a copy of it (see syncSiteCopy) that Krems builds from, so the
+// notes in the vault keep their links, backlinks and graph. Attachments are copied into the copy's /images.
+export async function convertWikilinksInCopy(app: App, localMarkdownPath: string, copyDir: string): Promise<WikilinkReport> {
+	const imagesDir = path.join(copyDir, 'images');
+	const assetsCopied: string[] = [];
+	const report = await convertSitePages(app, localMarkdownPath, {
+		includes: sitePath => fs.existsSync(path.join(copyDir, sitePath)),
+		writePage: (page, sitePath, content) => fs.promises.writeFile(path.join(copyDir, sitePath), content, 'utf8'),
+		copyAsset: async (asset, bytes) => {
+			await fs.promises.mkdir(imagesDir, { recursive: true });
+			let name = asset.name;
+			for (let suffix = 1; ; suffix++) {
+				const existing = await fs.promises.readFile(path.join(imagesDir, name)).catch(() => null);
+				if (!existing) {
+					await fs.promises.writeFile(path.join(imagesDir, name), new Uint8Array(bytes));
+					assetsCopied.push(`images/${name}`);
+					break;
+				}
+				if (sameBytes(existing.buffer.slice(existing.byteOffset, existing.byteOffset + existing.byteLength), bytes)) break;
+				name = `${asset.basename}-${suffix}.${asset.extension}`;
+			}
+			return `images/${name}`;
+		},
+	});
+	return { ...report, assetsCopied };
+}
+
+// Rewrites Obsidian wikilinks and embeds in the notes of the site folder itself, so the pushed Markdown
+// works on GitHub. This replaces the links in the vault for good; it only runs when the user opts in.
+export async function convertWikilinks(app: App, localMarkdownPath: string): Promise<WikilinkReport> {
+	const siteRoot = normalizePath(localMarkdownPath);
+	const imagesFolder = `${siteRoot}/images`;
+	const assetsCopied: string[] = [];
+	const report = await convertSitePages(app, localMarkdownPath, {
+		includes: () => true,
+		writePage: (page, sitePath, content) => app.vault.modify(page, content),
+		copyAsset: async (asset, bytes) => {
+			if (!app.vault.getAbstractFileByPath(imagesFolder)) {
+				await app.vault.createFolder(imagesFolder);
+			}
+			let targetPath = `${imagesFolder}/${asset.name}`;
+			for (let suffix = 1; ; suffix++) {
+				const existing = app.vault.getAbstractFileByPath(targetPath);
+				if (!existing) {
+					await app.vault.createBinary(targetPath, bytes);
+					assetsCopied.push(targetPath);
+					break;
+				}
+				// Reuse an earlier copy of the same attachment instead of piling up duplicates
+				if (existing instanceof TFile && existing.stat.size === asset.stat.size && sameBytes(await app.vault.readBinary(existing), bytes)) {
+					break;
+				}
+				targetPath = `${imagesFolder}/${asset.basename}-${suffix}.${asset.extension}`;
+			}
+			return targetPath.substring(siteRoot.length + 1);
+		},
+	});
+	return { ...report, assetsCopied };
+}
+
+// Pages of the site that still contain wikilinks or embeds, from Obsidian's metadata cache
+export function getPagesWithWikilinks(app: App, localMarkdownPath: string): TFile[] {
+	const siteRoot = normalizePath(localMarkdownPath);
+	return app.vault.getMarkdownFiles().filter(file => {
+		if (!isInFolder(file.path, siteRoot)) return false;
+		const cache = app.metadataCache.getFileCache(file);
+		return [...(cache?.links || []), ...(cache?.embeds || [])]
+			.some(link => link.original.startsWith('[[') || link.original.startsWith('![['));
+	});
+}
+
+function sameBytes(a: ArrayBuffer, b: ArrayBuffer): boolean {
+	if (a.byteLength !== b.byteLength) return false;
+	const viewA = new Uint8Array(a);
+	const viewB = new Uint8Array(b);
+	for (let i = 0; i < viewA.length; i++) {
+		if (viewA[i] !== viewB[i]) return false;
+	}
+	return true;
+}
+
+// One-line summary for the modal feedback, plus a Notice listing the links that could not be converted
+export function summarizeWikilinkReport(report: WikilinkReport): string {
+	let summary = `Converted ${report.linksConverted} wikilink(s) in ${report.filesChanged} page(s)`;
+	if (report.assetsCopied.length > 0) {
+		summary += `, copied ${report.assetsCopied.length} attachment(s) into /images`;
+	}
+	summary += '.';
+
+	if (report.unresolved.length > 0) {
+		summary += ` ${report.unresolved.length} link(s) could not be resolved.`;
+		const details = report.unresolved
+			.slice(0, 10)
+			.map(link => `${path.posix.basename(link.file)}: ${link.link} (${link.reason})`)
+			.join('\n');
+		const more = report.unresolved.length > 10 ? `\n...and ${report.unresolved.length - 10} more (see console).` : '';
+		new Notice(`Krems: unresolved links\n${details}${more}`, 15000);
+		console.warn('Krems: unresolved wikilinks:', report.unresolved);
+	}
+	return summary;
+}